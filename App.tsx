@@ -1,11 +1,30 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { GamePhase, GameRoom, Player, GridCell, ScoreType } from './types';
-import { dbService as db } from './firebase-service';
+import { GamePhase, GameRoom, Player, ScoreType, ScoringRules, MergeProposal, Challenge, TopicPack, TopicMode, RoomEvent } from './types';
+import { db, identityStorage } from './store';
+import { groupAnswers } from './matching';
+import { BUILTIN_PACKS, drawTopics, loadCustomPacks, saveCustomPack, deleteCustomPack, loadSelectedPacks, saveSelectedPacks } from './topic-decks';
+import { GameAction, applyAction, createEmptyGrid, findChallenge, isSettled, getActivePlayers, getSpectators, hasOpenChallenges, getScoringRules, getBoardSize, createEmptyTopics, gameReducer, getRoundHistory, getUsedTopics, checkAnswer, allAnswersPublished, getTopicMode, canPickTopics, rankTopicCandidates, isMatchOver, getMatchWinners, countReady, allPlayersReady, canRunGame, isCoHost, pickNextHost, hostChangeUpdates, pendingSettlement, DEFAULT_SCORING_RULES, BOARD_SIZES, PLAYER_CAPS, WRITING_TIME_LIMITS, MATCH_LENGTHS, TOPIC_MODES, formatTime } from './game-engine';
+import { REACTION_MS } from './room-store';
+
+const TOPIC_MODE_LABELS: Record<TopicMode, string> = {
+  host: 'Host',
+  rotate: 'Rotating',
+  vote: 'Room Vote'
+};
+
+const REACTIONS = ['👏', '😂', '😱', '🔥', '🤔', '😭'];
 
-// Helper to generate empty grid
-const createEmptyGrid = (): GridCell[] =>
-  Array(9).fill(null).map(() => ({ word: '', score: 'NONE' }));
+// The current room is mirrored into ?room= so the page can be shared, and a reload finds its way back
+const ROOM_PARAM = 'room';
+const ROOM_STORAGE_KEY = 'jinx_roomId';
+
+const setRoomParam = (rid: string) => {
+  const url = new URL(window.location.href);
+  if (rid) url.searchParams.set(ROOM_PARAM, rid);
+  else url.searchParams.delete(ROOM_PARAM);
+  window.history.replaceState(null, '', url);
+};
 
 const App: React.FC = () => {
   const [user, setUser] = useState<{ id: string, name: string } | null>(null);
@@ -17,43 +36,123 @@ const App: React.FC = () => {
   const [showRules, setShowRules] = useState(false);
   const [nameInput, setNameInput] = useState('');
   const [joinRidInput, setJoinRidInput] = useState('');
+  const [challengeCell, setChallengeCell] = useState<number | null>(null);
+  const [selectedGroup, setSelectedGroup] = useState<{ topic: number, key: string } | null>(null);
+  const [customPacks, setCustomPacks] = useState<TopicPack[]>(() => loadCustomPacks());
+  const [selectedPacks, setSelectedPacks] = useState<string[]>(() => {
+    const saved = loadSelectedPacks();
+    return saved.length > 0 ? saved : [BUILTIN_PACKS[0].id];
+  });
+  const [topicInput, setTopicInput] = useState('');
+  // Topics being typed, sent to the room on blur like the answers
+  const [topicDrafts, setTopicDrafts] = useState<Record<number, string>>({});
+  const [packForm, setPackForm] = useState<{ id?: string, name: string, topics: string } | null>(null);
+  // Room code being rejoined from a link or a reload
+  const [rejoining, setRejoining] = useState('');
+  const [linkCopied, setLinkCopied] = useState(false);
+  // Reactions floating up right now, and the JinxO shout being shown
+  const [reactions, setReactions] = useState<RoomEvent[]>([]);
+  const [shout, setShout] = useState<RoomEvent | null>(null);
+
+  const [clock, setClock] = useState(() => db.serverNow());
 
   const topicContainerRef = useRef<HTMLDivElement>(null);
+  // My private answer sheet while WRITING, by grid index
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  // Answers typed but not yet saved (textarea not blurred), by grid index
+  const draftsRef = useRef<Record<number, string>>({});
+  const publishedRoundRef = useRef<number | null>(null);
+  const proposedRoundRef = useRef<number | null>(null);
+  const settlingRef = useRef<string | null>(null);
+  const timeUpHandledRef = useRef<number | null>(null);
+  // Latest room snapshot, for callbacks that fire after a delay
+  const roomRef = useRef<GameRoom | null>(null);
+  roomRef.current = room;
+  // Whether I have shown up in the room yet, so disappearing from it later means I was kicked
+  const wasMemberRef = useRef(false);
+  const wasSpectatorRef = useRef(false);
   const modalRef = useRef<HTMLDivElement>(null);
 
-  // Load user from local storage on mount
+  const enterRoom = (rid: string) => {
+    setRoomId(rid);
+    setRoomParam(rid);
+    identityStorage.setItem(ROOM_STORAGE_KEY, rid);
+  };
+
+  const exitRoom = () => {
+    setRoom(null);
+    setRoomId('');
+    setRoomParam('');
+    identityStorage.removeItem(ROOM_STORAGE_KEY);
+  };
+
+  // Sign in on mount; the name is remembered in storage
   useEffect(() => {
-    const storedUserId = localStorage.getItem('jinx_userId');
-    const storedUserName = localStorage.getItem('jinx_userName');
-
-    if (storedUserId) {
-      if (storedUserName) {
-        // If we have both, we can restore the session or prefill
-        setNameInput(storedUserName);
-        setUser({ id: storedUserId, name: storedUserName });
-      } else {
-        // Just ID exists? that's weird but valid
-        setUser({ id: storedUserId, name: '' });
+    const storedUserName = identityStorage.getItem('jinx_userName') || '';
+    if (storedUserName) setNameInput(storedUserName);
+
+    db.signIn().then(uid => {
+      // Ids used to be random strings kept in storage. The signed-in uid replaces them; the name carries over.
+      // The old seat is not carried over: the rules only let a uid write its own player node, and mapping
+      // an unverified stored id onto a uid would let anyone claim a seat. That player rejoins as someone new.
+      const legacyId = identityStorage.getItem('jinx_userId');
+      if (legacyId) {
+        identityStorage.removeItem('jinx_userId');
+        console.log(`App: Replaced legacy player id ${legacyId} with ${uid}`);
       }
-    }
+      setUser({ id: uid, name: storedUserName });
+      // Tidy up rooms everyone walked away from
+      db.sweepStaleRooms();
+
+      // A shared link, or the room this tab was in before a reload. With a known name we go straight in;
+      // joinRoom puts a returning player back on their own board.
+      const linkedRoom = new URLSearchParams(window.location.search).get(ROOM_PARAM) || '';
+      const lastRoom = linkedRoom || identityStorage.getItem(ROOM_STORAGE_KEY) || '';
+      if (linkedRoom) setJoinRidInput(linkedRoom);
+      if (lastRoom && storedUserName) {
+        setRejoining(lastRoom);
+        db.joinRoom(lastRoom, uid, storedUserName)
+          .then(() => enterRoom(lastRoom))
+          .catch(err => {
+            console.warn(`App: Could not rejoin room ${lastRoom}`, err);
+            exitRoom();
+            // Only a link the player just opened is worth complaining about
+            if (linkedRoom) setError(err.message || "Failed to join room");
+          })
+          .finally(() => setRejoining(''));
+      }
+    }).catch(err => setError(`Could not sign in: ${err.message || err}`));
   }, []);
 
-  // Update localStorage when user changes (or new one created)
-  const saveUserToStorage = (id: string, name: string) => {
-    localStorage.setItem('jinx_userId', id);
-    localStorage.setItem('jinx_userName', name);
+  const saveNameToStorage = (name: string) => {
+    identityStorage.setItem('jinx_userName', name);
   };
 
   // Auto-join if roomId in URL or state
   useEffect(() => {
     if (roomId && user) {
+      wasMemberRef.current = false;
+      wasSpectatorRef.current = false;
       const unsubscribe = db.getRoom(roomId, (data) => {
         if (!data) {
           // Room was deleted
-          setRoom(null);
-          setRoomId('');
+          exitRoom();
           return;
         }
+        const isMember = !!data.players?.[user.id] || !!data.spectators?.[user.id];
+        if (wasMemberRef.current && !isMember) {
+          // The host removed me
+          wasMemberRef.current = false;
+          db.forgetRoom(roomId, user.id);
+          exitRoom();
+          setError(data.banned?.[user.id] !== undefined ? "You were banned from this room" : "The host removed you from the room");
+          return;
+        }
+        wasMemberRef.current = isMember;
+        // Seated by the host or a new round: our disconnect mark still points at the spectator node
+        const isSeated = !!data.players?.[user.id];
+        if (wasSpectatorRef.current && isSeated) db.takeSeat(roomId, user.id);
+        wasSpectatorRef.current = !!data.spectators?.[user.id] && !isSeated;
         setRoom(data);
       });
       return () => unsubscribe();
@@ -73,6 +172,7 @@ const App: React.FC = () => {
 
   // Handle click outside for modal
   useEffect(() => {
+    setChallengeCell(null);
     const handleModalClickOutside = (event: MouseEvent) => {
       if (modalRef.current && !modalRef.current.contains(event.target as Node)) {
         setViewingPlayerId(null);
@@ -84,7 +184,7 @@ const App: React.FC = () => {
     }
   }, [viewingPlayerId]);
 
-  // Host Claim Logic: If host disconnects, remaining players pick a new host
+  // Host Claim Logic: If host disconnects, remaining players pick a new host (a co-host first)
   useEffect(() => {
     if (!room || !user || !room.players) return;
 
@@ -94,7 +194,7 @@ const App: React.FC = () => {
 
     if (isHostGone) {
       // Find all active players
-      const activePlayers = (Object.values(room.players) as Player[]).filter(p => p.status !== 'leaved');
+      const activePlayers = getActivePlayers(room);
 
       if (activePlayers.length > 0) {
         // Deterministic Leader Election:
@@ -106,23 +206,13 @@ const App: React.FC = () => {
 
         // If I am the leader, I perform the update
         if (user.id === leader.id) {
-          // Pick a RANDOM player from the active ones to be the new host
-          const newHostCandidate = activePlayers[Math.floor(Math.random() * activePlayers.length)];
-          const newHostId = newHostCandidate.id;
+          // A co-host takes over if there is one, otherwise a RANDOM active player
+          const newHostId = pickNextHost(room);
+          if (!newHostId) return;
 
           console.log(`App: Host ${room.hostId} is gone. I am leader (${user.id}). Assigning new host: ${newHostId}`);
 
-          const updates: any = {
-            hostId: newHostId,
-            [`players/${newHostId}/isHost`]: true,
-          };
-
-          // If the old host still exists in the map, unset their flag
-          if (hostPlayer) {
-            updates[`players/${room.hostId}/isHost`] = false;
-          }
-
-          db.updateRoom(room.id, updates).catch(err => console.error("Failed to claim host", err));
+          db.updateRoom(room.id, hostChangeUpdates(room, newHostId)).catch(err => console.error("Failed to claim host", err));
         }
       }
     }
@@ -134,51 +224,63 @@ const App: React.FC = () => {
       return;
     }
 
-    // Use existing ID or generate new one
-    const uid = user?.id || Math.random().toString(36).substr(2, 9);
-    saveUserToStorage(uid, name);
+    if (!user) {
+      setError("Still signing in, try again in a moment");
+      return;
+    }
+    const uid = user.id;
+    saveNameToStorage(name);
 
-    const rid = Math.floor(1000 + Math.random() * 9000).toString();
     const newUser = { id: uid, name };
 
-    const newRoom: GameRoom = {
-      id: rid,
-      hostId: uid,
-      topics: ['', '', ''],
-      phase: GamePhase.LOBBY,
-      players: {
-        [uid]: {
-          id: uid,
-          name,
-          isHost: true,
-          grid: createEmptyGrid(),
-          totalScore: 0,
-          isReady: false,
-          status: 'active'
-        }
-      },
-      createdAt: Date.now()
-    };
-
-    setUser(newUser);
-    setRoomId(rid);
-    await db.saveRoom(newRoom);
+    try {
+      // The store picks a free room code
+      const newRoom = await db.createRoom(rid => ({
+        id: rid,
+        hostId: uid,
+        topics: createEmptyTopics(),
+        phase: GamePhase.LOBBY,
+        players: {
+          [uid]: {
+            id: uid,
+            name,
+            isHost: true,
+            grid: createEmptyGrid(),
+            totalScore: 0,
+            isReady: false,
+            status: 'active'
+          }
+        },
+        createdAt: Date.now(),
+        boardSize: 3,
+        scoringRules: DEFAULT_SCORING_RULES
+      }));
+
+      setUser(newUser);
+      enterRoom(newRoom.id);
+      setError('');
+    } catch (err: any) {
+      setError(err.message || "Failed to create room");
+    }
   };
 
-  const handleJoinRoom = async (name: string, targetRid: string) => {
+  const handleJoinRoom = async (name: string, targetRid: string, asSpectator = false) => {
     if (name.length > 24) {
       setError("Name must be 24 characters or less");
       return;
     }
 
-    // Use existing ID or generate new one
-    const uid = user?.id || Math.random().toString(36).substr(2, 9);
-    saveUserToStorage(uid, name);
+    if (!user) {
+      setError("Still signing in, try again in a moment");
+      return;
+    }
+    const uid = user.id;
+    saveNameToStorage(name);
 
     try {
-      await db.joinRoom(targetRid, uid, name);
+      await db.joinRoom(targetRid, uid, name, asSpectator);
       setUser({ id: uid, name });
-      setRoomId(targetRid);
+      enterRoom(targetRid);
       setError('');
     } catch (err: any) {
       setError(err.message || "Failed to join room");
@@ -187,107 +289,369 @@ const App: React.FC = () => {
 
   const handleLeaveRoom = async () => {
     if (!room || !user) return;
+    wasMemberRef.current = false;
     try {
       await db.leaveRoom(room.id, user.id, user.id === room.hostId);
-      setRoom(null);
-      setRoomId('');
+      exitRoom();
     } catch (err: any) {
       setError(err.message || "Failed to leave room");
     }
   };
 
-  const updatePhase = async (nextPhase: GamePhase) => {
-    if (room) {
-      await db.updateRoom(room.id, { phase: nextPhase });
+  // Done writing / done marking. Typed answers are saved first so nothing is lost if the boards lock right away.
+  const toggleReady = async () => {
+    if (!room || !user) return;
+    const ready = !room.players?.[user.id]?.isReady;
+    if (ready && room.phase === GamePhase.WRITING) await flushDrafts();
+    await dispatch({ type: 'SET_READY', ready });
+  };
+
+  const sendReaction = (emoji: string) => {
+    if (!room || !user) return;
+    db.sendEvent(room.id, { type: 'reaction', by: user.id, emoji }).catch(err => setError(err.message || "Could not send that"));
+  };
+
+  const shoutJinx = (partner: string, word: string) => {
+    if (!room || !user) return;
+    db.sendEvent(room.id, { type: 'jinx', by: user.id, partner, word }).catch(err => setError(err.message || "Could not send that"));
+  };
+
+  // Invite link for this room; opening it joins straight away if the browser knows the player's name
+  const copyInviteLink = async () => {
+    if (!room) return;
+    const url = new URL(window.location.pathname, window.location.origin);
+    const store = new URLSearchParams(window.location.search).get('store');
+    if (store) url.searchParams.set('store', store);
+    url.searchParams.set(ROOM_PARAM, room.id);
+    try {
+      await navigator.clipboard.writeText(url.toString());
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error("App: Could not copy invite link", err);
+      setError(`Share this link: ${url}`);
+    }
+  };
+
+  // Every game move goes through the engine, which checks the phase and who is asking
+  const dispatch = async (action: GameAction) => {
+    if (!room || !user) return;
+    try {
+      await db.updateRoom(room.id, applyAction(room, user.id, action));
+      setError('');
+    } catch (err: any) {
+      setError(err.message || "That move is not allowed");
     }
   };
 
-  const handleRestart = async () => {
-    if (!room || user?.id !== room.hostId) return;
+  const boardSize = room ? getBoardSize(room) : 3;
 
-    const resetPlayers = { ...room.players };
-    Object.keys(resetPlayers).forEach(key => {
-      resetPlayers[key] = {
-        ...resetPlayers[key],
-        grid: createEmptyGrid(),
-        isReady: false
-      };
-    });
+  const newId = () => Date.now().toString(36) + Math.random().toString(36).substr(2, 4);
+
+  const allPacks = [...BUILTIN_PACKS, ...customPacks];
+  const activePacks = allPacks.filter(p => selectedPacks.includes(p.id));
+
+  const togglePack = (id: string) => {
+    const next = selectedPacks.includes(id) ? selectedPacks.filter(p => p !== id) : [...selectedPacks, id];
+    setSelectedPacks(next);
+    saveSelectedPacks(next);
+  };
+
+  const drawAllTopics = () => {
+    if (!room) return;
+    try {
+      dispatch({ type: 'SET_TOPICS', topics: drawTopics(activePacks, boardSize, getUsedTopics(room)) });
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  // Replace one topic, never with one already on the board or played this match
+  const rerollTopic = (index: number) => {
+    if (!room) return;
+    try {
+      const [topic] = drawTopics(activePacks, 1, [...getUsedTopics(room), ...(room.topics || [])]);
+      dispatch({ type: 'SET_TOPIC', index, topic });
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
 
-    await db.updateRoom(room.id, {
-      phase: GamePhase.SELECT_TOPICS,
-      topics: ['', '', ''],
-      players: resetPlayers
+  const saveTopic = (index: number, topic: string) => {
+    setTopicDrafts(prev => {
+      const next = { ...prev };
+      delete next[index];
+      return next;
     });
+    if (topic !== (room?.topics?.[index] || '')) dispatch({ type: 'SET_TOPIC', index, topic });
+  };
+
+  // Vote mode: put a topic on the list, or a random one from the selected packs
+  const submitTopic = (topic: string) => {
+    if (!topic.trim()) return;
+    dispatch({ type: 'SUBMIT_TOPIC', candidateId: newId(), topic });
+    setTopicInput('');
+  };
+
+  const suggestRandomTopic = () => {
+    if (!room) return;
+    try {
+      const listed = (Object.values(room.topicCandidates || {}) as { topic: string }[]).map(c => c.topic);
+      setTopicInput(drawTopics(activePacks, 1, [...getUsedTopics(room), ...listed])[0]);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const savePackForm = () => {
+    if (!packForm) return;
+    try {
+      const topics = packForm.topics.split('\n');
+      const saved = saveCustomPack({
+        id: packForm.id || `custom-${newId()}`,
+        name: packForm.name,
+        lang: /[\u0E00-\u0E7F]/.test(packForm.topics) ? 'th' : 'en',
+        topics
+      });
+      setCustomPacks(loadCustomPacks());
+      if (!selectedPacks.includes(saved.id)) togglePack(saved.id);
+      setPackForm(null);
+      setError('');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const removePack = (id: string) => {
+    deleteCustomPack(id);
+    setCustomPacks(loadCustomPacks());
+    if (selectedPacks.includes(id)) togglePack(id);
   };
 
   const updateGrid = (gridIndex: number, word: string) => {
-    if (!room || !user) return;
-    const newPlayers = { ...room.players };
-    newPlayers[user.id].grid[gridIndex].word = word;
+    draftsRef.current[gridIndex] = word;
     // Optimistic update local state only
-    setRoom({ ...room, players: newPlayers });
+    setAnswers(prev => ({ ...prev, [gridIndex]: word }));
+  };
+
+  // Let the room (and the TV display) know how many cells I have filled, without revealing them
+  const reportProgress = (sheet: Record<number, string>) => {
+    if (!room || !user) return;
+    const count = Object.values(sheet).filter(word => word.trim()).length;
+    if ((room.players?.[user.id]?.answeredCount || 0) === count) return;
+    dispatch({ type: 'SET_ANSWERED_COUNT', count });
   };
 
   const saveGridToDb = async (gridIndex: number, word: string) => {
     if (!room || !user) return;
-    const newPlayers = { ...room.players };
-    newPlayers[user.id].grid[gridIndex].word = word;
-    await db.updateRoom(room.id, { players: newPlayers });
+    delete draftsRef.current[gridIndex];
+    try {
+      const cleaned = checkAnswer(room, user.id, gridIndex, word);
+      await db.saveAnswers(room.id, user.id, room.round || 1, { [gridIndex]: cleaned });
+      setError('');
+      reportProgress({ ...answers, [gridIndex]: cleaned });
+    } catch (err: any) {
+      setError(err.message || "Could not save your answer");
+    }
   };
 
-  const cycleScore = async (gridIndex: number) => {
+  // Save every unsaved answer in one write (used when the writing clock runs out)
+  const flushDrafts = async () => {
     if (!room || !user) return;
-    if (room.phase !== GamePhase.SCORING && room.phase !== GamePhase.VALIDATION) return;
+    const drafts = draftsRef.current;
+    draftsRef.current = {};
+    try {
+      const words: Record<number, string> = {};
+      Object.entries(drafts).forEach(([cell, word]) => {
+        words[Number(cell)] = checkAnswer(room, user.id, Number(cell), word);
+      });
+      if (Object.keys(words).length > 0) {
+        await db.saveAnswers(room.id, user.id, room.round || 1, words);
+        reportProgress({ ...answers, ...words });
+      }
+    } catch (err) {
+      console.error("Failed to flush answers", err);
+    }
+  };
 
-    const newPlayers = { ...room.players };
-    const currentScore = newPlayers[user.id].grid[gridIndex].score;
-    const scores: ScoreType[] = ['NONE', 'O', 'X', 'STAR'];
-    const nextIdx = (scores.indexOf(currentScore) + 1) % scores.length;
-    newPlayers[user.id].grid[gridIndex].score = scores[nextIdx];
+  // Totals are added up from the marks as they are on the server, inside a transaction,
+  // so a mark changed a moment ago still counts and a double click cannot score the round twice
+  const finalizeScores = async () => {
+    if (!room || !user) return;
+    let failure = '';
+    try {
+      const committed = await db.transactRoom(room.id, latest => {
+        try {
+          failure = '';
+          return gameReducer(latest, user.id, { type: 'FINALIZE_SCORES' });
+        } catch (err: any) {
+          failure = err.message;
+          return undefined;
+        }
+      });
+      setError(committed ? '' : failure || "Could not finish the round");
+    } catch (err: any) {
+      setError(err.message || "Could not finish the round");
+    }
+  };
 
-    await db.updateRoom(room.id, { players: newPlayers });
+  const cycleScore = async (gridIndex: number) => {
+    await dispatch({ type: 'CYCLE_SCORE', cell: gridIndex });
   };
 
-  const calculateFinalScores = async () => {
+  // First tap selects a group, second tap on another group of the same topic merges (or proposes) them
+  const handleGroupClick = async (topic: number, key: string) => {
     if (!room) return;
-    const newPlayers = { ...room.players };
-    (Object.values(newPlayers) as Player[]).forEach(p => {
-      let roundTotal = 0;
-
-      // 1. Base Score
-      p.grid.forEach(cell => {
-        if (cell.score === 'O') roundTotal += 1;
-        if (cell.score === 'STAR') roundTotal += 2;
-      });
+    if (!selectedGroup || selectedGroup.topic !== topic) {
+      setSelectedGroup({ topic, key });
+      return;
+    }
+    setSelectedGroup(null);
+    if (selectedGroup.key === key) return;
+
+    const keys = [selectedGroup.key, key];
+    const groups = groupAnswers(room.players, topic, boardSize, room.merges);
+    await dispatch({
+      type: 'MERGE_GROUPS',
+      proposalId: newId(),
+      topic,
+      keys,
+      words: keys.map(k => groups.find(g => g.key === k)?.words.join(' / ') || k)
+    });
+  };
 
-      // 2. Row Bonuses (Indices: 0-2, 3-5, 6-8)
-      // Row 1 (Top): +3, Row 2 (Mid): +2, Row 3 (Bot): +1
-      const rowBonuses = [3, 2, 1];
-      for (let r = 0; r < 3; r++) {
-        const start = r * 3;
-        const isBingo = [0, 1, 2].every(offset => {
-          const s = p.grid[start + offset].score;
-          return s === 'O' || s === 'STAR';
-        });
-        if (isBingo) roundTotal += rowBonuses[r];
-      }
+  const openChallenge = async (playerId: string, cell: number, score: ScoreType) => {
+    setChallengeCell(null);
+    await dispatch({ type: 'OPEN_CHALLENGE', challengeId: newId(), playerId, cell, score });
+  };
 
-      // 3. Col Bonuses (Indices: [0,3,6], [1,4,7], [2,5,8])
-      // Col 1 (Left): +1, Col 2 (Mid): +2, Col 3 (Right): +3
-      const colBonuses = [1, 2, 3];
-      for (let c = 0; c < 3; c++) {
-        const isBingo = [0, 1, 2].every(offset => {
-          const s = p.grid[c + (offset * 3)].score;
-          return s === 'O' || s === 'STAR';
-        });
-        if (isBingo) roundTotal += colBonuses[c];
+  // My private answer sheet for this round, while WRITING
+  useEffect(() => {
+    if (!room || !user || room.phase !== GamePhase.WRITING) return;
+    setAnswers({ ...draftsRef.current });
+    return db.watchAnswers(room.id, user.id, room.round || 1, words => setAnswers({ ...words, ...draftsRef.current }));
+  }, [room?.id, room?.phase, room?.round, user?.id]);
+
+  // Reactions and shouts from everyone in the room
+  useEffect(() => {
+    if (!room?.id || !user) return;
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    const unsubscribe = db.watchEvents(room.id, event => {
+      if (event.type === 'jinx') {
+        setShout(event);
+        timers.push(setTimeout(() => setShout(current => current?.id === event.id ? null : current), REACTION_MS));
+      } else {
+        setReactions(current => [...current.slice(-11), event]);
+        timers.push(setTimeout(() => setReactions(current => current.filter(e => e.id !== event.id)), REACTION_MS));
       }
+    });
+    return () => {
+      unsubscribe();
+      timers.forEach(clearTimeout);
+      setReactions([]);
+      setShout(null);
+    };
+  }, [room?.id, user?.id]);
 
-      p.totalScore += roundTotal;
+  // Once the boards lock, copy my private answers into the room for everyone to see
+  useEffect(() => {
+    if (!room || !user || room.phase !== GamePhase.SCORING) return;
+    const me = room.players?.[user.id];
+    const round = room.round || 1;
+    if (!me || me.answersPublished || publishedRoundRef.current === round) return;
+    publishedRoundRef.current = round;
+
+    const roomId = room.id;
+    // Only what reached the answer sheet before the boards locked counts: the rules check the grid against it
+    draftsRef.current = {};
+    db.getAnswers(roomId, user.id, round).then(async sheet => {
+      const latest = roomRef.current;
+      if (!latest || latest.id !== roomId) return;
+      const size = getBoardSize(latest);
+      const words = Array.from({ length: size * size }, (_, i) => sheet[i] || '');
+      await db.updateRoom(roomId, applyAction(latest, user.id, { type: 'PUBLISH_ANSWERS', words }));
+      await db.clearAnswers(roomId, user.id);
+    }).catch(err => {
+      publishedRoundRef.current = null; // Try again on the next room update
+      console.error("Failed to publish answers", err);
     });
-    await db.updateRoom(room.id, { players: newPlayers, phase: GamePhase.FINISHED });
-  };
+  }, [room, user]);
+
+  // The host pre-fills everyone's marks as soon as all answers are in
+  useEffect(() => {
+    if (!room || !user || room.hostId !== user.id || room.phase !== GamePhase.SCORING) return;
+    const round = room.round || 1;
+    if (room.scoresProposed || !allAnswersPublished(room) || proposedRoundRef.current === round) return;
+    proposedRoundRef.current = round;
+    db.updateRoom(room.id, applyAction(room, user.id, { type: 'PROPOSE_SCORES' })).catch(err => {
+      proposedRoundRef.current = null;
+      console.error("Failed to fill in marks", err);
+    });
+  }, [room, user]);
+
+  // Players only record their votes; the host carries out each one the room has decided
+  useEffect(() => {
+    if (!room || !user || room.hostId !== user.id) return;
+    const settlement = pendingSettlement(room);
+    const key = settlement && JSON.stringify(settlement);
+    if (!settlement || settlingRef.current === key) return;
+    settlingRef.current = key;
+    db.updateRoom(room.id, applyAction(room, user.id, settlement)).catch(err => {
+      settlingRef.current = null;
+      console.error("Failed to apply vote", err);
+    });
+  }, [room, user]);
+
+  // Writing countdown, ticking on server time
+  useEffect(() => {
+    if (room?.phase !== GamePhase.WRITING || !room.writingDeadline) return;
+    const timer = setInterval(() => setClock(db.serverNow()), 250);
+    return () => clearInterval(timer);
+  }, [room?.phase, room?.writingDeadline]);
+
+  // At the deadline every client flushes its answers, then tries to lock the boards.
+  // The database rules only accept WRITING -> SCORING once, so only the first attempt commits;
+  // it is a plain update because only the host may write the whole room.
+  useEffect(() => {
+    if (!room || !user || room.phase !== GamePhase.WRITING || !room.writingDeadline) return;
+    if (clock < room.writingDeadline || timeUpHandledRef.current === room.writingDeadline) return;
+    timeUpHandledRef.current = room.writingDeadline;
+
+    flushDrafts();
+    const roomId = room.id;
+    // Give everyone's last answers a moment to land before scoring them
+    setTimeout(() => {
+      const latest = roomRef.current;
+      if (!latest || latest.id !== roomId) return;
+      let updates;
+      try {
+        updates = applyAction(latest, user.id, { type: 'TIME_UP', now: db.serverNow() });
+      } catch {
+        return; // Someone else already locked the boards
+      }
+      db.updateRoom(roomId, updates).catch(err => console.error("Failed to lock boards at time up", err));
+    }, 1500);
+  }, [clock, room, user]);
+
+  // Auto-advance: the host moves on once every active player is ready
+  useEffect(() => {
+    if (!room || !user || room.hostId !== user.id || !room.autoAdvance || !allPlayersReady(room)) return;
+    if (room.phase === GamePhase.WRITING) {
+      dispatch({ type: 'LOCK_BOARDS' });
+    } else if (room.phase === GamePhase.SCORING && room.scoresProposed) {
+      dispatch({ type: 'REVEAL_BOARDS' });
+    }
+  }, [room, user]);
+
+  // Save half-typed answers when the tab is hidden; mobile browsers may drop it before a blur ever fires
+  useEffect(() => {
+    if (room?.phase !== GamePhase.WRITING) return;
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') flushDrafts();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, [room, user]);
 
   if (!user || !room) {
     return (
@@ -299,6 +663,12 @@ const App: React.FC = () => {
           </div>
 
           {error && <div className="bg-red-900/30 text-red-400 p-3 rounded-xl mb-4 text-sm border border-red-800/50">{error}</div>}
+          {rejoining && (
+            <div className="bg-indigo-900/30 text-indigo-300 p-3 rounded-xl mb-4 text-sm border border-indigo-800/50 flex items-center gap-3">
+              <div className="w-4 h-4 border-2 border-indigo-400 border-t-transparent rounded-full animate-spin"></div>
+              Rejoining room {rejoining}...
+            </div>
+          )}
 
           <div className="space-y-4">
             <input
@@ -339,6 +709,14 @@ const App: React.FC = () => {
               >
                 Join Room
               </button>
+              <button
+                onClick={() => {
+                  if (nameInput && joinRidInput) handleJoinRoom(nameInput, joinRidInput, true);
+                }}
+                className="w-full py-2 text-slate-400 text-sm font-bold hover:text-slate-200 transition-colors"
+              >
+                👀 Just Watch
+              </button>
             </div>
           </div>
         </div>
@@ -347,6 +725,72 @@ const App: React.FC = () => {
 
   }
 
+  const scoringRules = getScoringRules(room);
+  const isSpectator = !room.players?.[user.id] && !!room.spectators?.[user.id];
+  // Host or co-host: may move the game along
+  const canRun = canRunGame(room, user.id);
+  const secondsLeft = room.phase === GamePhase.WRITING && room.writingDeadline
+    ? Math.max(0, Math.ceil((room.writingDeadline - clock) / 1000))
+    : null;
+  const formatPoints = (n: number) => `${n > 0 ? '+' : ''}${n}`;
+
+  const memberName = (id?: string) => (id && (room.players?.[id]?.name || room.spectators?.[id]?.name)) || 'Someone';
+
+  // Answers I share with exactly one other player: each one earns a JinxO shout once the boards are revealed
+  const myJinxes = room.phase === GamePhase.VALIDATION && room.players?.[user.id]
+    ? Array.from({ length: getBoardSize(room) }, (_, topic) =>
+      groupAnswers(room.players, topic, getBoardSize(room), room.merges)
+        .filter(g => g.playerIds.length === 2 && g.playerIds.includes(user.id))
+        .map(g => ({ topic, key: g.key, partner: g.playerIds.find(id => id !== user.id)!, word: g.words[0] }))
+    ).flat()
+    : [];
+
+  // Kick and ban buttons the host sees next to everyone else
+  const moderationButtons = (id: string, name: string) => user.id === room.hostId && id !== user.id && (
+    <span className="flex gap-1 flex-shrink-0">
+      <button
+        onClick={() => dispatch({ type: 'KICK_PLAYER', playerId: id })}
+        className="px-1.5 py-0.5 rounded-md text-[10px] font-bold text-slate-500 hover:text-red-300 hover:bg-red-900/30"
+        title={`Remove ${name} from the room`}
+      >
+        Kick
+      </button>
+      <button
+        onClick={() => dispatch({ type: 'BAN_PLAYER', playerId: id })}
+        className="px-1.5 py-0.5 rounded-md text-[10px] font-bold text-slate-500 hover:text-red-300 hover:bg-red-900/30"
+        title={`Remove ${name} and keep them out`}
+      >
+        Ban
+      </button>
+    </span>
+  );
+
+  // Role buttons the host sees next to every other player
+  const roleButtons = (p: Player) => user.id === room.hostId && p.id !== user.id && (
+    <span className="flex gap-1 flex-shrink-0">
+      <button
+        onClick={() => dispatch({ type: 'SET_CO_HOST', playerId: p.id, coHost: !isCoHost(room, p.id) })}
+        className={`px-1.5 py-0.5 rounded-md text-[10px] font-bold ${isCoHost(room, p.id) ? 'text-amber-300 bg-amber-900/30' : 'text-slate-500'} hover:text-amber-200 hover:bg-amber-900/30`}
+        title={isCoHost(room, p.id) ? `${p.name} is a co-host` : `Let ${p.name} run the game with you`}
+      >
+        Co-host
+      </button>
+      {p.status !== 'leaved' && (
+        <button
+          onClick={() => dispatch({ type: 'TRANSFER_HOST', playerId: p.id })}
+          className="px-1.5 py-0.5 rounded-md text-[10px] font-bold text-slate-500 hover:text-amber-200 hover:bg-amber-900/30"
+          title={`Hand the host role to ${p.name}`}
+        >
+          Make host
+        </button>
+      )}
+    </span>
+  );
+
+  // Host edits one field at a time; the engine checks the whole rule set
+  const updateScoringRules = (patch: Partial<ScoringRules>) =>
+    dispatch({ type: 'SET_SCORING_RULES', rules: { ...scoringRules, ...patch } });
+
   return (
     <div className="min-h-screen bg-slate-950 text-slate-200 pb-20 font-sans">
       <header className="bg-slate-900 border-b border-slate-800 px-6 py-4 flex justify-between items-center sticky top-0 z-10 shadow-md">
@@ -358,7 +802,7 @@ const App: React.FC = () => {
           <div className="text-right truncate hidden sm:block">
             <p className="text-sm font-semibold truncate text-slate-200" title={user.name}>{user.name}</p>
             <span className={`text-[10px] px-2 py-0.5 rounded-full ${room.players?.[user.id]?.isHost ? 'bg-amber-900/40 text-amber-400' : 'bg-slate-800 text-slate-400'}`}>
-              {room.players?.[user.id]?.isHost ? 'Host' : 'Player'}
+              {room.players?.[user.id]?.isHost ? 'Host' : isCoHost(room, user.id) ? 'Co-host' : isSpectator ? 'Spectator' : 'Player'}
             </span>
           </div>
           <button
@@ -378,7 +822,7 @@ const App: React.FC = () => {
 
       {/* Defensive check: Ensure player exists in the room data */}
       {
-        !room.players?.[user.id] ? (
+        !room.players?.[user.id] && !isSpectator ? (
           <div className="flex flex-col items-center justify-center p-20 text-center">
             <div className="w-12 h-12 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin mb-4"></div>
             <p className="text-slate-400 mt-4 font-medium">Syncing your player data...</p>
@@ -392,53 +836,417 @@ const App: React.FC = () => {
                 <h3 className="font-bold text-slate-300 tracking-wide uppercase text-sm">
                   {room.phase.replace('_', ' ')}
                 </h3>
+                {room.phase !== GamePhase.LOBBY && (
+                  <span className="text-xs font-mono font-bold text-slate-500">
+                    Round {room.round || 1}{room.matchLength ? `/${room.matchLength}` : ''}
+                  </span>
+                )}
               </div>
             </div>
 
+            {error && (
+              <div className="max-w-2xl mx-auto mb-6 bg-red-900/30 text-red-400 px-4 py-3 rounded-xl text-sm border border-red-800/50 flex items-center justify-between gap-4">
+                <span>{error}</span>
+                <button onClick={() => setError('')} className="text-red-300 hover:text-red-100 text-lg leading-none">×</button>
+              </div>
+            )}
+
             {room.phase === GamePhase.LOBBY && (
               <div className="bg-slate-900 rounded-3xl p-8 shadow-2xl border border-slate-800 text-center max-w-2xl mx-auto">
                 <h3 className="text-2xl font-bold mb-4 text-slate-100">Waiting for players...</h3>
                 <div className="flex flex-wrap justify-center gap-4 mb-8">
                   {(Object.values(room.players || {}) as Player[]).map(p => (
-                    <div key={p.id} className="bg-slate-800 px-6 py-3 rounded-2xl border border-slate-700 flex items-center gap-3 max-w-[200px]">
+                    <div key={p.id} className="bg-slate-800 px-6 py-3 rounded-2xl border border-slate-700 flex items-center gap-3 max-w-[420px]">
                       <div className="w-8 h-8 rounded-full bg-indigo-900/50 text-indigo-300 flex-shrink-0 flex items-center justify-center font-bold">
                         {p.name?.[0]?.toUpperCase() || '?'}
                       </div>
-                      <span className="font-medium truncate text-slate-200" title={p.name}>{p.name}</span>
+                      <span className="font-medium truncate text-slate-200" title={p.name}>{p.id === room.hostId && '👑 '}{p.name}</span>
+                      {roleButtons(p)}
+                      {moderationButtons(p.id, p.name)}
                     </div>
                   ))}
                 </div>
-                {user.id === room.hostId && (
+                {getSpectators(room).length > 0 && (
+                  <div className="mb-8">
+                    <p className="text-[10px] text-slate-500 uppercase tracking-widest font-bold mb-3">Watching</p>
+                    <div className="flex flex-wrap justify-center gap-2">
+                      {getSpectators(room).map(s => (
+                        <div key={s.id} className="bg-slate-800/50 pl-4 pr-2 py-1.5 rounded-full border border-slate-800 flex items-center gap-2 text-sm text-slate-400">
+                          <span className="truncate max-w-[140px]" title={s.name}>👀 {s.name}</span>
+                          {user.id === room.hostId ? (
+                            <button
+                              onClick={() => dispatch({ type: 'SEAT_SPECTATOR', spectatorId: s.id })}
+                              className="px-2 py-0.5 rounded-full bg-indigo-500 text-white text-[10px] font-bold hover:bg-indigo-400"
+                            >
+                              Seat
+                            </button>
+                          ) : <span className="w-1" />}
+                          {moderationButtons(s.id, s.name)}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <div className="bg-slate-800/50 rounded-2xl p-5 mb-4 text-left border border-slate-800">
+                  <div className="flex items-center justify-between mb-4">
+                    <h4 className="font-bold text-slate-100 text-sm uppercase tracking-widest">Room Access</h4>
+                    <button
+                      disabled={user.id !== room.hostId}
+                      onClick={() => dispatch({ type: 'SET_ROOM_LOCKED', locked: !room.locked })}
+                      className={`px-3 py-1 rounded-xl font-bold text-xs border transition-colors ${room.locked ? 'border-red-500 bg-red-900/40 text-red-200' : 'border-slate-700 bg-slate-800 text-slate-400 enabled:hover:bg-slate-700'}`}
+                    >
+                      {room.locked ? '🔒 Locked' : '🔓 Open'}
+                    </button>
+                  </div>
+                  <p className="text-[10px] text-slate-500 uppercase tracking-widest font-bold mb-2">Max Players</p>
+                  <div className="grid grid-cols-5 gap-3">
+                    {PLAYER_CAPS.map(count => (
+                      <button
+                        key={count}
+                        disabled={user.id !== room.hostId}
+                        onClick={() => dispatch({ type: 'SET_MAX_PLAYERS', count })}
+                        className={`py-2 rounded-xl font-bold text-sm border transition-colors ${(room.maxPlayers || 0) === count ? 'border-indigo-400 bg-indigo-900/50 text-indigo-200' : 'border-slate-700 bg-slate-800 text-slate-400 enabled:hover:bg-slate-700'}`}
+                      >
+                        {count === 0 ? '∞' : count}
+                      </button>
+                    ))}
+                  </div>
+                  {Object.keys(room.banned || {}).length > 0 && (
+                    <div className="mt-4 flex flex-wrap gap-2">
+                      {Object.entries(room.banned || {}).map(([id, name]) => (
+                        <span key={id} className="bg-red-900/20 border border-red-900/50 pl-3 pr-1 py-1 rounded-full text-xs text-red-300 flex items-center gap-2">
+                          🚫 {name || 'Unknown'}
+                          {user.id === room.hostId && (
+                            <button
+                              onClick={() => dispatch({ type: 'UNBAN_PLAYER', playerId: id })}
+                              className="px-2 py-0.5 rounded-full bg-slate-800 text-slate-300 text-[10px] font-bold hover:bg-slate-700"
+                            >
+                              Unban
+                            </button>
+                          )}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div className="bg-slate-800/50 rounded-2xl p-5 mb-4 text-left border border-slate-800">
+                  <h4 className="font-bold text-slate-100 mb-4 text-sm uppercase tracking-widest">Board Size</h4>
+                  <div className="grid grid-cols-4 gap-3">
+                    {BOARD_SIZES.map(size => (
+                      <button
+                        key={size}
+                        disabled={user.id !== room.hostId}
+                        onClick={() => dispatch({ type: 'SET_BOARD_SIZE', size })}
+                        className={`py-2 rounded-xl font-bold text-sm border transition-colors ${boardSize === size ? 'border-indigo-400 bg-indigo-900/50 text-indigo-200' : 'border-slate-700 bg-slate-800 text-slate-400 enabled:hover:bg-slate-700'}`}
+                      >
+                        {size}×{size}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="bg-slate-800/50 rounded-2xl p-5 mb-4 text-left border border-slate-800">
+                  <h4 className="font-bold text-slate-100 mb-4 text-sm uppercase tracking-widest">Match Length</h4>
+                  <div className="grid grid-cols-5 gap-3">
+                    {MATCH_LENGTHS.map(rounds => (
+                      <button
+                        key={rounds}
+                        disabled={user.id !== room.hostId}
+                        onClick={() => dispatch({ type: 'SET_MATCH_LENGTH', rounds })}
+                        className={`py-2 rounded-xl font-bold text-sm border transition-colors ${(room.matchLength || 0) === rounds ? 'border-indigo-400 bg-indigo-900/50 text-indigo-200' : 'border-slate-700 bg-slate-800 text-slate-400 enabled:hover:bg-slate-700'}`}
+                      >
+                        {rounds === 0 ? '∞' : `${rounds} rd${rounds === 1 ? '' : 's'}`}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="bg-slate-800/50 rounded-2xl p-5 mb-4 text-left border border-slate-800">
+                  <h4 className="font-bold text-slate-100 mb-4 text-sm uppercase tracking-widest">Topics Picked By</h4>
+                  <div className="grid grid-cols-3 gap-3">
+                    {TOPIC_MODES.map(mode => (
+                      <button
+                        key={mode}
+                        disabled={user.id !== room.hostId}
+                        onClick={() => dispatch({ type: 'SET_TOPIC_MODE', mode })}
+                        className={`py-2 rounded-xl font-bold text-sm border transition-colors ${getTopicMode(room) === mode ? 'border-indigo-400 bg-indigo-900/50 text-indigo-200' : 'border-slate-700 bg-slate-800 text-slate-400 enabled:hover:bg-slate-700'}`}
+                      >
+                        {TOPIC_MODE_LABELS[mode]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="bg-slate-800/50 rounded-2xl p-5 mb-4 text-left border border-slate-800">
+                  <h4 className="font-bold text-slate-100 mb-4 text-sm uppercase tracking-widest">Writing Time</h4>
+                  <div className="grid grid-cols-3 sm:grid-cols-6 gap-3">
+                    {WRITING_TIME_LIMITS.map(seconds => (
+                      <button
+                        key={seconds}
+                        disabled={user.id !== room.hostId}
+                        onClick={() => dispatch({ type: 'SET_WRITING_TIME_LIMIT', seconds })}
+                        className={`py-2 rounded-xl font-bold text-sm border transition-colors ${(room.writingTimeLimit || 0) === seconds ? 'border-indigo-400 bg-indigo-900/50 text-indigo-200' : 'border-slate-700 bg-slate-800 text-slate-400 enabled:hover:bg-slate-700'}`}
+                      >
+                        {seconds === 0 ? 'Off' : formatTime(seconds)}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="bg-slate-800/50 rounded-2xl p-5 mb-4 text-left border border-slate-800 flex items-center justify-between gap-4">
+                  <div>
+                    <h4 className="font-bold text-slate-100 text-sm uppercase tracking-widest">Auto-Advance</h4>
+                    <p className="text-xs text-slate-500 mt-1">Lock the boards and reveal them as soon as everyone is ready</p>
+                  </div>
+                  <button
+                    disabled={user.id !== room.hostId}
+                    onClick={() => dispatch({ type: 'SET_AUTO_ADVANCE', enabled: !room.autoAdvance })}
+                    className={`px-4 py-2 rounded-xl font-bold text-sm border transition-colors flex-shrink-0 ${room.autoAdvance ? 'border-indigo-400 bg-indigo-900/50 text-indigo-200' : 'border-slate-700 bg-slate-800 text-slate-400 enabled:hover:bg-slate-700'}`}
+                  >
+                    {room.autoAdvance ? 'On' : 'Off'}
+                  </button>
+                </div>
+                <div className="bg-slate-800/50 rounded-2xl p-5 mb-8 text-left border border-slate-800">
+                  <h4 className="font-bold text-slate-100 mb-4 text-sm uppercase tracking-widest">Scoring Rules</h4>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-xs">
+                    {([
+                      ['O', 'text-green-400', scoringRules.cellPoints.O, (n: number) => updateScoringRules({ cellPoints: { ...scoringRules.cellPoints, O: n } })],
+                      ['⭐', 'text-amber-400', scoringRules.cellPoints.STAR, (n: number) => updateScoringRules({ cellPoints: { ...scoringRules.cellPoints, STAR: n } })],
+                      ['X', 'text-red-400', scoringRules.cellPoints.X, (n: number) => updateScoringRules({ cellPoints: { ...scoringRules.cellPoints, X: n } })],
+                      ['Full', 'text-indigo-300', scoringRules.fullBoardBonus, (n: number) => updateScoringRules({ fullBoardBonus: n })],
+                    ] as [string, string, number, (n: number) => void][]).map(([label, color, value, onChange]) => (
+                      <label key={label} className="flex items-center gap-2 bg-slate-800 rounded-xl px-3 py-2">
+                        <span className={`font-black w-8 ${color}`}>{label}</span>
+                        <input
+                          type="number"
+                          value={value}
+                          disabled={user.id !== room.hostId}
+                          onChange={(e) => onChange(Number(e.target.value) || 0)}
+                          className="w-full bg-transparent text-slate-100 font-mono focus:outline-none disabled:text-slate-400"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-xs mt-3">
+                    {([
+                      ['Rows', 'rowBonuses'],
+                      ['Columns', 'colBonuses'],
+                      ['Diagonals', 'diagonalBonuses'],
+                    ] as [string, 'rowBonuses' | 'colBonuses' | 'diagonalBonuses'][]).map(([label, field]) => (
+                      <div key={field} className="bg-slate-800 rounded-xl px-3 py-2">
+                        <span className="text-slate-500 font-bold uppercase text-[10px]">{label}</span>
+                        <div className="flex gap-2 mt-1">
+                          {scoringRules[field].map((bonus, i) => (
+                            <input
+                              key={i}
+                              type="number"
+                              value={bonus}
+                              disabled={user.id !== room.hostId}
+                              onChange={(e) => {
+                                const next = [...scoringRules[field]];
+                                next[i] = Number(e.target.value) || 0;
+                                updateScoringRules({ [field]: next });
+                              }}
+                              className="w-full min-w-0 bg-slate-900 rounded-lg px-2 py-1 text-slate-100 font-mono focus:outline-none disabled:text-slate-400"
+                            />
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                {canRun && (
                   <button
-                    onClick={() => updatePhase(GamePhase.SELECT_TOPICS)}
+                    onClick={() => dispatch({ type: 'START_GAME' })}
                     className="px-10 py-4 jinx-gradient text-white font-bold rounded-2xl shadow-lg hover:scale-105 transition-transform"
                   >
                     Start Game
                   </button>
                 )}
+                <button
+                  onClick={copyInviteLink}
+                  className="block mx-auto mt-6 text-sm text-slate-400 hover:text-indigo-300 transition-colors"
+                >
+                  {linkCopied ? '✅ Link copied' : '🔗 Copy invite link'}
+                </button>
+                <a
+                  href={`${window.location.pathname}?${new URLSearchParams({ ...Object.fromEntries(new URLSearchParams(window.location.search)), tv: room.id })}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="block mt-2 text-sm text-slate-500 hover:text-indigo-300 transition-colors"
+                >
+                  📺 Open TV display
+                </a>
               </div>
             )}
 
             {room.phase === GamePhase.SELECT_TOPICS && (
               <div className="bg-slate-900 rounded-3xl p-8 shadow-2xl border border-slate-800 max-w-2xl mx-auto">
-                <h3 className="text-2xl font-bold mb-6 text-center text-slate-100">Set 3 Game Topics</h3>
-                {user.id === room.hostId ? (
+                <h3 className="text-2xl font-bold mb-6 text-center text-slate-100">
+                  {getTopicMode(room) === 'vote' ? `Vote for ${boardSize} Topics` : `Set ${boardSize} Game Topics`}
+                </h3>
+                {getTopicMode(room) === 'vote' ? (
                   <div className="space-y-4 max-w-md mx-auto">
-                    {[0, 1, 2].map(i => (
+                    <p className="text-xs text-slate-500 text-center">
+                      Suggest topics and vote for up to {boardSize}. The {boardSize} with the most votes are played.
+                    </p>
+                    <div className="flex gap-2">
                       <input
-                        key={i}
                         type="text"
-                        placeholder={`Topic ${i + 1}`}
-                        className="w-full px-5 py-4 rounded-xl border border-slate-700 bg-slate-800 text-slate-100 focus:ring-2 focus:ring-indigo-500 placeholder-slate-500"
-                        onChange={(e) => {
-                          const newTopics = [...(room.topics || [])];
-                          newTopics[i] = e.target.value;
-                          db.updateRoom(room.id, { topics: newTopics });
-                        }}
+                        value={topicInput}
+                        placeholder="Suggest a topic"
+                        onChange={(e) => setTopicInput(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && submitTopic(topicInput)}
+                        className="flex-1 min-w-0 px-4 py-3 rounded-xl border border-slate-700 bg-slate-800 text-slate-100 focus:ring-2 focus:ring-indigo-500 placeholder-slate-500"
                       />
+                      <button
+                        onClick={suggestRandomTopic}
+                        disabled={activePacks.length === 0}
+                        className="px-4 rounded-xl border border-slate-700 bg-slate-800 text-slate-300 enabled:hover:bg-slate-700 disabled:opacity-50"
+                        title="Random topic from your packs"
+                      >
+                        🎲
+                      </button>
+                      <button
+                        onClick={() => submitTopic(topicInput)}
+                        className="px-4 rounded-xl bg-indigo-500 text-white font-bold hover:bg-indigo-400"
+                      >
+                        Add
+                      </button>
+                    </div>
+                    <div className="space-y-2">
+                      {rankTopicCandidates(room).map((c, rank) => {
+                        const votes = Object.keys(c.votes || {}).length;
+                        const mine = !!c.votes?.[user.id];
+                        return (
+                          <div
+                            key={c.id}
+                            className={`flex items-center gap-3 px-4 py-3 rounded-xl border ${rank < boardSize ? 'border-indigo-500/50 bg-indigo-900/20' : 'border-slate-800 bg-slate-800/50'}`}
+                          >
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm font-bold text-slate-100 break-words">{c.topic}</p>
+                              <p className="text-[10px] text-slate-500">by {room.players[c.by]?.name || 'Unknown'}</p>
+                            </div>
+                            <button
+                              onClick={() => dispatch({ type: 'VOTE_TOPIC', candidateId: c.id })}
+                              className={`px-3 py-1 rounded-lg text-xs font-bold border ${mine ? 'border-indigo-400 bg-indigo-500 text-white' : 'border-slate-700 text-slate-300 hover:bg-slate-700'}`}
+                            >
+                              👍 {votes}
+                            </button>
+                            {(c.by === user.id || canRun) && (
+                              <button
+                                onClick={() => dispatch({ type: 'WITHDRAW_TOPIC', candidateId: c.id })}
+                                className="text-slate-500 hover:text-red-400 text-xs"
+                                title="Remove topic"
+                              >
+                                ✕
+                              </button>
+                            )}
+                          </div>
+                        );
+                      })}
+                      {!room.topicCandidates && (
+                        <p className="text-center text-slate-500 italic text-sm py-4">No topics suggested yet</p>
+                      )}
+                    </div>
+                    {canRun && (
+                      <button
+                        onClick={() => dispatch({ type: 'CONFIRM_TOPICS', now: db.serverNow() })}
+                        className="w-full py-4 jinx-gradient text-white font-bold rounded-2xl shadow-lg mt-4"
+                      >
+                        Play Top {boardSize} Topics
+                      </button>
+                    )}
+                  </div>
+                ) : canPickTopics(room, user.id) ? (
+                  <div className="space-y-4 max-w-md mx-auto">
+                    <div className="bg-slate-800/50 rounded-2xl p-4 border border-slate-800">
+                      <div className="flex items-center justify-between mb-3">
+                        <h4 className="font-bold text-slate-100 text-sm uppercase tracking-widest">Topic Packs</h4>
+                        <button
+                          onClick={() => setPackForm(packForm ? null : { name: '', topics: '' })}
+                          className="text-xs font-bold text-indigo-400 hover:text-indigo-300"
+                        >
+                          {packForm ? 'Cancel' : '+ New Pack'}
+                        </button>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {allPacks.map(pack => (
+                          <div
+                            key={pack.id}
+                            className={`flex items-center rounded-full border text-xs font-bold transition-colors ${selectedPacks.includes(pack.id) ? 'border-indigo-400 bg-indigo-900/50 text-indigo-200' : 'border-slate-700 bg-slate-800 text-slate-400'}`}
+                          >
+                            <button onClick={() => togglePack(pack.id)} className="pl-3 pr-2 py-1.5" title={pack.topics.join(', ')}>
+                              <span className="uppercase text-[9px] text-slate-500 mr-1">{pack.lang}</span>
+                              {pack.name} <span className="text-slate-500 font-mono">({pack.topics.length})</span>
+                            </button>
+                            {pack.custom && (
+                              <>
+                                <button
+                                  onClick={() => setPackForm({ id: pack.id, name: pack.name, topics: pack.topics.join('\n') })}
+                                  className="px-1 py-1.5 text-slate-500 hover:text-slate-200"
+                                  title="Edit pack"
+                                >
+                                  ✎
+                                </button>
+                                <button onClick={() => removePack(pack.id)} className="pl-1 pr-3 py-1.5 text-slate-500 hover:text-red-400" title="Delete pack">
+                                  ✕
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                      {packForm && (
+                        <div className="mt-4 space-y-2">
+                          <input
+                            type="text"
+                            value={packForm.name}
+                            placeholder="Pack name"
+                            onChange={(e) => setPackForm({ ...packForm, name: e.target.value })}
+                            className="w-full px-4 py-2 rounded-xl border border-slate-700 bg-slate-800 text-slate-100 text-sm placeholder-slate-500"
+                          />
+                          <textarea
+                            value={packForm.topics}
+                            placeholder="One topic per line"
+                            rows={5}
+                            onChange={(e) => setPackForm({ ...packForm, topics: e.target.value })}
+                            className="w-full px-4 py-2 rounded-xl border border-slate-700 bg-slate-800 text-slate-100 text-sm placeholder-slate-500"
+                          />
+                          <button
+                            onClick={savePackForm}
+                            className="w-full py-2 bg-indigo-500 text-white font-bold rounded-xl hover:bg-indigo-400 text-sm"
+                          >
+                            Save Pack
+                          </button>
+                        </div>
+                      )}
+                      <button
+                        onClick={drawAllTopics}
+                        disabled={activePacks.length === 0}
+                        className="w-full mt-4 py-3 bg-slate-700 text-slate-100 font-bold rounded-xl enabled:hover:bg-slate-600 disabled:opacity-50 text-sm"
+                      >
+                        🎲 Draw {boardSize} Topics
+                      </button>
+                    </div>
+                    {Array.from({ length: boardSize }, (_, i) => (
+                      <div key={i} className="flex gap-2">
+                        <input
+                          type="text"
+                          placeholder={`Topic ${i + 1}`}
+                          value={topicDrafts[i] ?? room.topics?.[i] ?? ''}
+                          className="flex-1 min-w-0 px-5 py-4 rounded-xl border border-slate-700 bg-slate-800 text-slate-100 focus:ring-2 focus:ring-indigo-500 placeholder-slate-500"
+                          onChange={(e) => setTopicDrafts(prev => ({ ...prev, [i]: e.target.value }))}
+                          onBlur={(e) => saveTopic(i, e.target.value)}
+                        />
+                        <button
+                          onClick={() => rerollTopic(i)}
+                          disabled={activePacks.length === 0}
+                          className="px-4 rounded-xl border border-slate-700 bg-slate-800 text-slate-300 enabled:hover:bg-slate-700 disabled:opacity-50"
+                          title="Reroll this topic"
+                        >
+                          🎲
+                        </button>
+                      </div>
                     ))}
                     <button
-                      onClick={() => updatePhase(GamePhase.WRITING)}
+                      onClick={() => dispatch({ type: 'CONFIRM_TOPICS', now: db.serverNow() })}
                       className="w-full py-4 jinx-gradient text-white font-bold rounded-2xl shadow-lg mt-4"
                     >
                       Confirm Topics
@@ -446,7 +1254,9 @@ const App: React.FC = () => {
                   </div>
                 ) : (
                   <div className="text-center py-10">
-                    <p className="text-slate-400 italic">The host is choosing topics...</p>
+                    <p className="text-slate-400 italic">
+                      {getActivePlayers(room).find(p => canPickTopics(room, p.id))?.name || 'The host'} is choosing topics...
+                    </p>
                     <div className="flex justify-center gap-2 mt-4">
                       <div className="w-2 h-2 bg-indigo-500 rounded-full animate-bounce"></div>
                       <div className="w-2 h-2 bg-indigo-500 rounded-full animate-bounce [animation-delay:-0.15s]"></div>
@@ -483,75 +1293,125 @@ const App: React.FC = () => {
                     ))}
                   </div>
 
-                  <div className="flex items-center gap-4 w-full max-w-md">
-                    <div className="flex-1">
-                      <div className="grid grid-cols-3 gap-2 bg-slate-900 p-2 rounded-2xl shadow-2xl aspect-square w-full border border-slate-800">
-                        {room.players?.[user.id]?.grid?.map((cell, idx) => (
-                          <div
-                            key={idx}
-                            onClick={() => room.phase === GamePhase.SCORING || room.phase === GamePhase.VALIDATION ? cycleScore(idx) : null}
-                            className={`
-                          grid-cell flex flex-col items-center justify-center p-1 rounded-xl relative overflow-hidden cursor-pointer aspect-square
-                          ${room.phase === GamePhase.WRITING ? 'bg-slate-800' : 'bg-slate-800/70'}
-                          ${cell.score === 'O' ? 'border-4 border-green-500 shadow-[0_0_15px_rgba(34,197,94,0.4)]' : ''}
-                          ${cell.score === 'X' ? 'border-4 border-red-500 opacity-60' : ''}
-                          ${cell.score === 'STAR' ? 'border-4 border-amber-500 shadow-[0_0_15px_rgba(245,158,11,0.4)] bg-amber-900/20' : ''}
-                          ${cell.score === 'NONE' ? 'border border-slate-700' : ''}
-                        `}
-                          >
-                            {/* THE WORD AREA (Wraps up to 24 chars) */}
-                            <div className="w-full h-full flex items-center justify-center p-1">
-                              {room.phase === GamePhase.WRITING ? (
-                                <textarea
-                                  value={cell.word}
-                                  placeholder="..."
-                                  maxLength={24}
-                                  onChange={(e) => updateGrid(idx, e.target.value)}
-                                  onBlur={(e) => saveGridToDb(idx, e.target.value)}
-                                  className="w-full h-full bg-transparent text-center focus:outline-none font-bold text-slate-100 text-[10px] md:text-xs resize-none flex items-center justify-center pt-2 placeholder-slate-600"
-                                  style={{ verticalAlign: 'middle' }}
-                                />
-                              ) : (
-                                <span className="font-bold text-slate-200 text-[10px] md:text-sm text-center leading-tight break-words max-w-full">
-                                  {cell.word || '-'}
-                                </span>
+                  {isSpectator ? (
+                    <div className="w-full max-w-md bg-slate-900 rounded-3xl p-8 border border-slate-800 text-center">
+                      <p className="text-3xl mb-2">👀</p>
+                      <p className="font-bold text-slate-200">You are watching this round</p>
+                      <p className="text-xs text-slate-500 mt-2">
+                        {room.spectators?.[user.id]?.seatNextRound
+                          ? 'You get a board when the next round starts.'
+                          : 'Ask the host for a seat in the lobby to play.'}
+                      </p>
+                    </div>
+                  ) : (
+                    <>
+                    <div className="flex items-center gap-4 w-full max-w-md">
+                      <div className="flex-1">
+                        <div
+                          className="grid gap-2 bg-slate-900 p-2 rounded-2xl shadow-2xl aspect-square w-full border border-slate-800"
+                          style={{ gridTemplateColumns: `repeat(${boardSize}, minmax(0, 1fr))` }}
+                        >
+                          {room.players?.[user.id]?.grid?.map((cell, idx) => (
+                            <div
+                              key={idx}
+                              onClick={() => room.phase === GamePhase.SCORING ? cycleScore(idx) : null}
+                              className={`
+                            grid-cell flex flex-col items-center justify-center p-1 rounded-xl relative overflow-hidden cursor-pointer aspect-square
+                            ${room.phase === GamePhase.WRITING ? 'bg-slate-800' : 'bg-slate-800/70'}
+                            ${cell.score === 'O' ? 'border-4 border-green-500 shadow-[0_0_15px_rgba(34,197,94,0.4)]' : ''}
+                            ${cell.score === 'X' ? 'border-4 border-red-500 opacity-60' : ''}
+                            ${cell.score === 'STAR' ? 'border-4 border-amber-500 shadow-[0_0_15px_rgba(245,158,11,0.4)] bg-amber-900/20' : ''}
+                            ${cell.score === 'NONE' ? 'border border-slate-700' : ''}
+                          `}
+                            >
+                              {/* THE WORD AREA (Wraps up to 24 chars) */}
+                              <div className="w-full h-full flex items-center justify-center p-1">
+                                {room.phase === GamePhase.WRITING ? (
+                                  <textarea
+                                    value={answers[idx] ?? ''}
+                                    placeholder="..."
+                                    maxLength={24}
+                                    readOnly={secondsLeft === 0 || !!room.players?.[user.id]?.isReady}
+                                    onChange={(e) => updateGrid(idx, e.target.value)}
+                                    onBlur={(e) => saveGridToDb(idx, e.target.value)}
+                                    className="w-full h-full bg-transparent text-center focus:outline-none font-bold text-slate-100 text-[10px] md:text-xs resize-none flex items-center justify-center pt-2 placeholder-slate-600"
+                                    style={{ verticalAlign: 'middle' }}
+                                  />
+                                ) : (
+                                  <span className="font-bold text-slate-200 text-[10px] md:text-sm text-center leading-tight break-words max-w-full">
+                                    {cell.word || '-'}
+                                  </span>
+                                )}
+                              </div>
+
+                              {findChallenge(room, user.id, idx) && (
+                                <span className="absolute top-1 right-1 text-xs z-10" title="Challenged - waiting for the vote">⚑</span>
+                              )}
+                              {isSettled(room, user.id, idx) && (
+                                <span className="absolute top-1 right-1 text-xs z-10" title="Decided by a vote">🔒</span>
+                              )}
+
+                              {/* SCORE ICON OVERLAY (Absolute layer, doesn't shift word) */}
+                              {room.phase !== GamePhase.WRITING && cell.score !== 'NONE' && (
+                                <div className="absolute inset-0 flex items-center justify-center pointer-events-none bg-black/20">
+                                  {cell.score === 'O' && <span className="text-green-400 text-4xl md:text-6xl font-black opacity-30 select-none">O</span>}
+                                  {cell.score === 'X' && <span className="text-red-400 text-4xl md:text-6xl font-black opacity-30 select-none">X</span>}
+                                  {cell.score === 'STAR' && <span className="text-amber-400 text-3xl md:text-5xl opacity-40 select-none">⭐</span>}
+                                </div>
                               )}
                             </div>
+                          ))}
+                        </div>
 
-                            {/* SCORE ICON OVERLAY (Absolute layer, doesn't shift word) */}
-                            {room.phase !== GamePhase.WRITING && cell.score !== 'NONE' && (
-                              <div className="absolute inset-0 flex items-center justify-center pointer-events-none bg-black/20">
-                                {cell.score === 'O' && <span className="text-green-400 text-4xl md:text-6xl font-black opacity-30 select-none">O</span>}
-                                {cell.score === 'X' && <span className="text-red-400 text-4xl md:text-6xl font-black opacity-30 select-none">X</span>}
-                                {cell.score === 'STAR' && <span className="text-amber-400 text-3xl md:text-5xl opacity-40 select-none">⭐</span>}
-                              </div>
-                            )}
-                          </div>
-                        ))}
+                        <div className="flex justify-around text-slate-600 font-bold text-sm mt-3">
+                          {scoringRules.colBonuses.map((bonus, c) => (
+                            <span key={c} className="flex-1 text-center">{bonus}</span>
+                          ))}
+                        </div>
                       </div>
 
-                      <div className="flex justify-around text-slate-600 font-bold text-sm mt-3">
-                        <span className="w-1/3 text-center">1</span>
-                        <span className="w-1/3 text-center">2</span>
-                        <span className="w-1/3 text-center">3</span>
+                      <div className="flex flex-col justify-between text-slate-600 font-bold text-sm h-[80%] py-4 pb-12">
+                        {scoringRules.rowBonuses.map((bonus, r) => (
+                          <div key={r} className="flex-1 flex items-center">{bonus}</div>
+                        ))}
                       </div>
                     </div>
 
-                    <div className="flex flex-col justify-between text-slate-600 font-bold text-sm h-[80%] py-4 pb-12">
-                      <div className="h-1/3 flex items-center">3</div>
-                      <div className="h-1/3 flex items-center">2</div>
-                      <div className="h-1/3 flex items-center">1</div>
-                    </div>
-                  </div>
+                    {(scoringRules.diagonalBonuses.some(b => b !== 0) || scoringRules.fullBoardBonus !== 0) && (
+                      <p className="mt-2 text-[10px] text-slate-500 font-bold uppercase tracking-wider">
+                        {scoringRules.diagonalBonuses[0] !== 0 && <span className="mr-3">↘ {formatPoints(scoringRules.diagonalBonuses[0])}</span>}
+                        {scoringRules.diagonalBonuses[1] !== 0 && <span className="mr-3">↙ {formatPoints(scoringRules.diagonalBonuses[1])}</span>}
+                        {scoringRules.fullBoardBonus !== 0 && <span>Full board {formatPoints(scoringRules.fullBoardBonus)}</span>}
+                      </p>
+                    )}
+                    </>
+                  )}
 
                   <div className="mt-8 flex flex-col items-center gap-4">
+                    {secondsLeft !== null && (
+                      <div className={`font-mono font-black text-3xl tracking-widest ${secondsLeft <= 10 ? 'text-red-400 animate-pulse' : 'text-slate-300'}`}>
+                        ⏱ {formatTime(secondsLeft)}
+                      </div>
+                    )}
+
+                    {(room.phase === GamePhase.WRITING || (room.phase === GamePhase.SCORING && room.players?.[user.id]?.answersPublished)) && room.players?.[user.id] && (
+                      <button
+                        onClick={toggleReady}
+                        className={`px-6 py-2 rounded-xl font-bold text-sm border transition-all active:scale-95 ${room.players[user.id].isReady ? 'border-green-500 bg-green-900/40 text-green-300' : 'border-slate-700 bg-slate-800 text-slate-300 hover:bg-slate-700'}`}
+                      >
+                        {room.players[user.id].isReady
+                          ? (room.phase === GamePhase.WRITING ? '✓ Done writing (tap to keep going)' : '✓ Finished marking')
+                          : (room.phase === GamePhase.WRITING ? "✋ I'm done" : "✋ I've finished marking")}
+                      </button>
+                    )}
+
                     {room.phase === GamePhase.WRITING && (
-                      user.id === room.hostId ? (
+                      canRun ? (
                         <button
-                          onClick={() => updatePhase(GamePhase.SCORING)}
+                          onClick={() => dispatch({ type: 'LOCK_BOARDS' })}
                           className="px-8 py-3 jinx-gradient text-white font-bold rounded-xl shadow-lg active:scale-95 transition-all"
                         >
-                          Lock Board & Start Scoring
+                          Lock Board & Start Scoring ({countReady(room)}/{getActivePlayers(room).length} ready)
                         </button>
                       ) : (
                         <p className="text-slate-400 italic text-sm flex items-center gap-2">
@@ -561,13 +1421,20 @@ const App: React.FC = () => {
                       )
                     )}
 
+                    {room.phase === GamePhase.SCORING && !room.scoresProposed && (
+                      <p className="text-slate-500 text-xs flex items-center gap-2">
+                        <span className="w-2 h-2 bg-amber-500 rounded-full animate-pulse"></span>
+                        Collecting answers ({getActivePlayers(room).filter(p => p.answersPublished).length}/{getActivePlayers(room).length})...
+                      </p>
+                    )}
+
                     {room.phase === GamePhase.SCORING && (
-                      user.id === room.hostId ? (
+                      canRun ? (
                         <button
-                          onClick={() => updatePhase(GamePhase.VALIDATION)}
+                          onClick={() => dispatch({ type: 'REVEAL_BOARDS' })}
                           className="px-8 py-3 bg-indigo-600 text-white font-bold rounded-xl shadow-lg active:scale-95 transition-all"
                         >
-                          Reveal to Everyone (Validation)
+                          Reveal to Everyone (Validation) ({countReady(room)}/{getActivePlayers(room).length} ready)
                         </button>
                       ) : (
                         <p className="text-slate-400 italic text-sm flex items-center gap-2">
@@ -578,12 +1445,13 @@ const App: React.FC = () => {
                     )}
 
                     {room.phase === GamePhase.VALIDATION && (
-                      user.id === room.hostId ? (
+                      room.hostId === user.id ? (
                         <button
-                          onClick={calculateFinalScores}
-                          className="px-8 py-3 bg-green-600 text-white font-bold rounded-xl shadow-lg active:scale-95 transition-all"
+                          onClick={finalizeScores}
+                          disabled={hasOpenChallenges(room)}
+                          className="px-8 py-3 bg-green-600 text-white font-bold rounded-xl shadow-lg active:scale-95 transition-all disabled:opacity-40 disabled:active:scale-100"
                         >
-                          Confirm & Finish Game
+                          {hasOpenChallenges(room) ? 'Settle Challenges First' : 'Confirm & Finish Game'}
                         </button>
                       ) : (
                         <p className="text-slate-400 italic text-sm flex items-center gap-2">
@@ -593,6 +1461,108 @@ const App: React.FC = () => {
                       )
                     )}
                   </div>
+                  {room.phase === GamePhase.FINISHED && getRoundHistory(room).length > 0 && (
+                    <div className="mt-8 w-full max-w-md bg-slate-900 rounded-3xl p-6 shadow-2xl border border-slate-800">
+                      {isMatchOver(room) && (
+                        <div className="text-center mb-6">
+                          <p className="text-[10px] text-slate-500 uppercase tracking-widest font-bold">Match Winner</p>
+                          <p className="text-2xl font-extrabold text-amber-300 mt-1 break-words">
+                            👑 {getMatchWinners(room).map(p => p.name).join(' & ')}
+                          </p>
+                        </div>
+                      )}
+                      <h4 className="font-bold text-slate-100 mb-4">Round by Round</h4>
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-xs">
+                          <thead>
+                            <tr className="text-slate-500 uppercase text-[10px]">
+                              <th className="text-left font-bold pb-2">Player</th>
+                              {getRoundHistory(room).map(r => (
+                                <th key={r.round} className="font-bold pb-2 px-2" title={(r.topics || []).join(', ')}>R{r.round}</th>
+                              ))}
+                              <th className="font-bold pb-2 pl-2 text-right">Total</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {(Object.values(room.players || {}) as Player[])
+                              .sort((a, b) => (b.totalScore || 0) - (a.totalScore || 0))
+                              .map(p => (
+                                <tr key={p.id} className="border-t border-slate-800">
+                                  <td className="py-2 text-slate-300 truncate max-w-[120px]" title={p.name}>{p.name}</td>
+                                  {getRoundHistory(room).map(r => {
+                                    const score = r.players?.[p.id]?.score;
+                                    return (
+                                      <td
+                                        key={r.round}
+                                        className="py-2 px-2 text-center font-mono text-slate-400"
+                                        title={score ? `Cells ${score.cells}, rows ${score.rows}, columns ${score.columns}, diagonals ${score.diagonals}, full board ${score.fullBoard}` : ''}
+                                      >
+                                        {score ? score.total : '-'}
+                                      </td>
+                                    );
+                                  })}
+                                  <td className="py-2 pl-2 text-right font-mono font-bold text-indigo-400">{p.totalScore || 0}</td>
+                                </tr>
+                              ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  )}
+
+                  {room.phase === GamePhase.VALIDATION && (
+                    <div className="mt-8 w-full max-w-md bg-slate-900 rounded-3xl p-6 shadow-2xl border border-slate-800">
+                      <h4 className="font-bold text-slate-100 mb-1">Answer Groups</h4>
+                      <p className="text-[10px] text-slate-500 mb-4">
+                        {user.id === room.hostId
+                          ? 'Tap two groups under the same topic to merge them.'
+                          : 'Tap two groups under the same topic to propose a merge.'}
+                      </p>
+                      {(room.topics || []).map((t, ti) => (
+                        <div key={ti} className="mb-4">
+                          <p className="text-xs font-bold uppercase text-indigo-300 mb-2 truncate">{t || 'Topic ' + (ti + 1)}</p>
+                          <div className="flex flex-wrap gap-2">
+                            {groupAnswers(room.players, ti, boardSize, room.merges).map(g => (
+                              <button
+                                key={g.key}
+                                onClick={() => handleGroupClick(ti, g.key)}
+                                className={`px-3 py-1.5 rounded-xl text-xs border transition-colors ${selectedGroup?.topic === ti && selectedGroup.key === g.key ? 'border-indigo-400 bg-indigo-900/50' : 'border-slate-700 bg-slate-800 hover:bg-slate-700'}`}
+                              >
+                                <span className="font-bold text-slate-200">{g.words.join(' = ')}</span>
+                                <span className="ml-2 text-slate-500">×{g.playerIds.length}</span>
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+
+                      {Object.values(room.mergeProposals || {}).length > 0 && (
+                        <div className="border-t border-slate-800 pt-4 space-y-2">
+                          <p className="text-[10px] text-slate-500 uppercase tracking-widest font-bold">Merge Votes</p>
+                          {(Object.values(room.mergeProposals || {}) as MergeProposal[]).map(mp => (
+                            <div key={mp.id} className="flex items-center justify-between bg-slate-800 px-3 py-2 rounded-xl text-xs">
+                              <span className="text-slate-300 truncate max-w-[60%]" title={mp.words.join(' = ')}>
+                                {mp.words.join(' = ')}
+                              </span>
+                              <div className="flex items-center gap-2 flex-shrink-0">
+                                <span className="text-slate-500 font-mono">
+                                  {Object.keys(mp.votes || {}).length}/{getActivePlayers(room).length}
+                                </span>
+                                {!mp.votes?.[user.id] && (
+                                  <button
+                                    onClick={() => dispatch({ type: 'VOTE_MERGE', proposalId: mp.id })}
+                                    className="px-2 py-1 rounded-lg bg-indigo-600 text-white font-bold"
+                                  >
+                                    Agree
+                                  </button>
+                                )}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </div>
 
                 <div className="lg:col-span-4 space-y-6">
@@ -603,7 +1573,7 @@ const App: React.FC = () => {
                     </h4>
                     <div className="space-y-4">
                       {(Object.values(room.players || {}) as Player[]).map(p => (
-                        <div key={p.id} className="flex items-center justify-between border-b border-slate-800 pb-3">
+                        <div key={p.id} className="flex flex-wrap gap-y-1 items-center justify-between border-b border-slate-800 pb-3">
                           <div className="flex items-center gap-3 max-w-[70%]">
                             <div className={`w-8 h-8 rounded-full flex-shrink-0 flex items-center justify-center font-bold text-xs ${p.id === user.id ? 'bg-indigo-500 text-white' : 'bg-slate-800 text-slate-400'}`}>
                               {p.name?.[0]?.toUpperCase() || '?'}
@@ -611,7 +1581,11 @@ const App: React.FC = () => {
                             <span className={`text-xs font-medium truncate ${p.id === user.id ? 'text-indigo-400 font-bold' : 'text-slate-300'}`} title={p.name}>
                               {p.name} {p.id === user.id && '(You)'}
                               {room.hostId === p.id && '(Host)'}
+                              {isCoHost(room, p.id) && '(Co-host)'}
                             </span>
+                            {p.isReady && (room.phase === GamePhase.WRITING || room.phase === GamePhase.SCORING) && (
+                              <span className="text-[10px] font-bold text-green-400 flex-shrink-0" title="Ready">✓</span>
+                            )}
                             {room.phase === GamePhase.VALIDATION && (
                               <button
                                 onClick={() => setViewingPlayerId(p.id)}
@@ -622,12 +1596,58 @@ const App: React.FC = () => {
                               </button>
                             )}
                           </div>
-                          <span className="font-mono font-bold text-sm text-indigo-400 flex-shrink-0">{p.totalScore || 0}</span>
+                          <div className="flex items-center gap-2 flex-shrink-0">
+                            {roleButtons(p)}
+                            {moderationButtons(p.id, p.name)}
+                            <span className="font-mono font-bold text-sm text-indigo-400">{p.totalScore || 0}</span>
+                          </div>
                         </div>
                       ))}
                     </div>
                   </div>
 
+                  {room.phase === GamePhase.VALIDATION && hasOpenChallenges(room) && (
+                    <div className="bg-slate-900 rounded-3xl p-6 shadow-2xl border border-amber-800/50">
+                      <h4 className="font-bold text-amber-300 mb-4 flex items-center gap-2">
+                        <span>⚑</span> Challenges
+                      </h4>
+                      <div className="space-y-3">
+                        {(Object.values(room.challenges || {}) as Challenge[]).map(ch => {
+                          const owner = room.players?.[ch.playerId];
+                          const myVote = ch.votes?.[user.id];
+                          return (
+                            <div key={ch.id} className="bg-slate-800 rounded-xl px-4 py-3 text-xs">
+                              <p className="text-slate-300 mb-2 break-words">
+                                <span className="font-bold text-slate-100">{owner?.name}</span>: "{owner?.grid?.[ch.cell]?.word || '-'}"
+                                <span className="text-slate-500"> marked {ch.currentScore === 'STAR' ? '⭐' : ch.currentScore}</span>
+                              </p>
+                              <div className="flex items-center gap-2">
+                                {(['O', 'X', 'STAR'] as ScoreType[]).map(s => (
+                                  <button
+                                    key={s}
+                                    onClick={() => dispatch({ type: 'VOTE_CHALLENGE', challengeId: ch.id, score: s })}
+                                    className={`flex-1 py-1 rounded-lg font-bold border ${myVote === s ? 'border-indigo-400 bg-indigo-900/50 text-indigo-200' : 'border-slate-700 text-slate-400 hover:bg-slate-700'}`}
+                                  >
+                                    {s === 'STAR' ? '⭐' : s} {Object.values(ch.votes || {}).filter(v => v === s).length}
+                                  </button>
+                                ))}
+                                {room.hostId === user.id && (
+                                  <button
+                                    onClick={() => dispatch({ type: 'CLOSE_CHALLENGE', challengeId: ch.id })}
+                                    className="px-2 py-1 rounded-lg font-bold border border-slate-700 text-slate-400 hover:bg-slate-700"
+                                    title="End the vote and keep the current mark"
+                                  >
+                                    Close
+                                  </button>
+                                )}
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+
                   {(room.phase === GamePhase.VALIDATION || room.phase === GamePhase.FINISHED) && (
                     <div className="bg-indigo-950 rounded-3xl p-6 text-white shadow-2xl border border-indigo-900/50">
                       <h4 className="font-bold mb-4 flex items-center gap-2 text-indigo-200">
@@ -644,12 +1664,12 @@ const App: React.FC = () => {
                           ))}
                       </div>
 
-                      {user.id === room.hostId && (
+                      {canRun && room.phase === GamePhase.FINISHED && (!isMatchOver(room) || room.hostId === user.id) && (
                         <button
-                          onClick={handleRestart}
+                          onClick={() => dispatch({ type: isMatchOver(room) ? 'NEW_MATCH' : 'RESTART_ROUND' })}
                           className="w-full mt-6 py-3 bg-indigo-500 text-white font-bold rounded-xl hover:bg-indigo-400 transition-all active:scale-95 shadow-lg"
                         >
-                          Restart Round
+                          {isMatchOver(room) ? 'New Match' : 'Next Round'}
                         </button>
                       )}
                     </div>
@@ -678,22 +1698,32 @@ const App: React.FC = () => {
                 </button>
               </div>
 
-              <div className="grid grid-cols-3 gap-2 bg-slate-800 p-3 rounded-2xl">
+              <div
+                className="grid gap-2 bg-slate-800 p-3 rounded-2xl"
+                style={{ gridTemplateColumns: `repeat(${boardSize}, minmax(0, 1fr))` }}
+              >
                 {room.players[viewingPlayerId].grid?.map((cell, idx) => (
                   <div
                     key={idx}
+                    onClick={() => room.phase === GamePhase.VALIDATION && viewingPlayerId !== user.id && !findChallenge(room, viewingPlayerId, idx) && !isSettled(room, viewingPlayerId, idx) ? setChallengeCell(idx) : null}
                     className={`
-                    flex flex-col items-center justify-center p-3 rounded-xl relative aspect-square
+                    flex flex-col items-center justify-center rounded-xl relative aspect-square
+                    ${boardSize > 3 ? 'p-1' : 'p-3'}
+                    ${challengeCell === idx ? 'ring-2 ring-indigo-400' : ''}
                     ${cell.score === 'O' ? 'border-4 border-green-500 bg-slate-700' : ''}
                     ${cell.score === 'X' ? 'border-4 border-red-500 bg-slate-700 opacity-60' : ''}
                     ${cell.score === 'STAR' ? 'border-4 border-amber-500 bg-amber-900/20' : ''}
                     ${cell.score === 'NONE' ? 'border border-slate-600 bg-slate-700' : ''}
                   `}
                   >
-                    <span className="font-bold text-slate-200 text-sm text-center leading-tight break-words max-w-full">
+                    <span className={`font-bold text-slate-200 text-center leading-tight break-words max-w-full ${boardSize > 3 ? 'text-[10px]' : 'text-sm'}`}>
                       {cell.word || '-'}
                     </span>
 
+                    {findChallenge(room, viewingPlayerId, idx) && (
+                      <span className="absolute top-1 right-1 text-xs z-10" title="Challenged">⚑</span>
+                    )}
+
                     {cell.score !== 'NONE' && (
                       <div className="absolute inset-0 flex items-center justify-center pointer-events-none bg-black/10">
                         {cell.score === 'O' && <span className="text-green-400 text-5xl font-black opacity-30">O</span>}
@@ -705,6 +1735,31 @@ const App: React.FC = () => {
                 ))}
               </div>
 
+              {challengeCell !== null && (
+                <div className="mt-4 bg-slate-800 rounded-2xl p-3 text-xs">
+                  <p className="text-slate-400 mb-2 text-center">
+                    Challenge "{room.players[viewingPlayerId].grid?.[challengeCell]?.word || '-'}" - it should be:
+                  </p>
+                  <div className="flex gap-2">
+                    {(['O', 'X', 'STAR'] as ScoreType[]).map(s => (
+                      <button
+                        key={s}
+                        onClick={() => openChallenge(viewingPlayerId, challengeCell, s)}
+                        className="flex-1 py-2 rounded-lg bg-slate-700 hover:bg-slate-600 font-bold text-slate-100"
+                      >
+                        {s === 'STAR' ? '⭐' : s}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => setChallengeCell(null)}
+                      className="px-3 py-2 rounded-lg text-slate-400 hover:text-slate-200"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+
               <div className="mt-4 text-center">
                 <span className="text-slate-400 text-sm">Total Score: </span>
                 <span className="text-indigo-400 font-bold text-lg">{room.players[viewingPlayerId].totalScore || 0}</span>
@@ -739,7 +1794,7 @@ const App: React.FC = () => {
                 <ul className="list-disc list-inside space-y-1 pl-1">
                   <li><strong className="text-slate-200">Setup:</strong> Each player gets a JinxO board (a grid) and a marker.</li>
                   <li><strong className="text-slate-200">Prompts:</strong> A topic card is drawn (e.g., "Things you find in a kitchen").</li>
-                  <li><strong className="text-slate-200">Answering:</strong> For each topic, every player must write 3 different words or short phrases related to that topic. Since the JinxO board has 3 topics and 3 boxes for each, this means each player will write a total of 9 answers per round (3 words × 3 topics). Fill one answer in each empty box on your grid.</li>
+                  <li><strong className="text-slate-200">Answering:</strong> For each topic, every player must write {boardSize} different words or short phrases related to that topic. Since this JinxO board has {boardSize} topics and {boardSize} boxes for each, this means each player will write a total of {boardSize * boardSize} answers per round ({boardSize} words × {boardSize} topics). Fill one answer in each empty box on your grid.</li>
                 </ul>
               </section>
 
@@ -748,22 +1803,30 @@ const App: React.FC = () => {
                 <ul className="space-y-2">
                   <li className="flex gap-2">
                     <span className="text-red-400 font-bold min-w-[60px]">No Match:</span>
-                    <div>If your answer matches no one else, you get <strong className="text-white">0 points</strong> (fill<span className="text-red-400 font-bold"> X</span> ).</div>
+                    <div>If your answer matches no one else, you get <strong className="text-white">{scoringRules.cellPoints.X} points</strong> (fill<span className="text-red-400 font-bold"> X</span> ).</div>
                   </li>
                   <li className="flex gap-2">
                     <span className="text-green-400 font-bold min-w-[60px]">Match:</span>
-                    <span>If you match one or more people, you score <strong className="text-white">1 point</strong> (fill<span className="text-green-400 font-bold"> O</span> ).</span>
+                    <span>If you match one or more people, you score <strong className="text-white">{scoringRules.cellPoints.O} point{scoringRules.cellPoints.O === 1 ? '' : 's'}</strong> (fill<span className="text-green-400 font-bold"> O</span> ).</span>
                   </li>
                   <li className="flex gap-2">
                     <span className="text-amber-400 font-bold min-w-[60px]">JinxO!:</span>
-                    <span>If you match <strong>exactly one other person</strong>, you both shout "JinxO!", and that box is worth <strong className="text-white">2 points</strong> (fill the star ⭐).</span>
+                    <span>If you match <strong>exactly one other person</strong>, you both shout "JinxO!", and that box is worth <strong className="text-white">{scoringRules.cellPoints.STAR} points</strong> (fill the star ⭐).</span>
                   </li>
                 </ul>
               </section>
 
               <section>
                 <h4 className="font-bold text-indigo-400 mb-1">Bonuses </h4>
-                <p> If you have complete rows or columns circled, you score points too. The scores are written along the edges of the grid. The box at the top right helps score both the 3 point column and the 3 point row,</p>
+                <p> If you have complete rows or columns circled, you score points too. The scores are written along the edges of the grid.</p>
+                <ul className="list-disc list-inside space-y-1 pl-1 mt-2">
+                  <li>Rows (top to bottom): {scoringRules.rowBonuses.join(' / ')}</li>
+                  <li>Columns (left to right): {scoringRules.colBonuses.join(' / ')}</li>
+                  {scoringRules.diagonalBonuses.some(b => b !== 0) && (
+                    <li>Diagonals (↘ / ↙): {scoringRules.diagonalBonuses.join(' / ')}</li>
+                  )}
+                  {scoringRules.fullBoardBonus !== 0 && <li>Full board: {scoringRules.fullBoardBonus}</li>}
+                </ul>
               </section>
             </div>
 
@@ -780,21 +1843,67 @@ const App: React.FC = () => {
           <div className="fixed bottom-6 left-1/2 -translate-x-1/2 bg-slate-900/90 backdrop-blur-md px-4 md:px-6 py-2 rounded-full shadow-2xl border border-slate-700 flex items-center gap-4 md:gap-6 z-20">
             <div className="flex items-center gap-1 md:gap-2">
               <span className="text-green-400 font-black text-lg md:text-xl">O</span>
-              <span className="text-[10px] text-slate-500 font-bold uppercase">1pt</span>
+              <span className="text-[10px] text-slate-500 font-bold uppercase">{scoringRules.cellPoints.O}pt</span>
             </div>
             <div className="flex items-center gap-1 md:gap-2">
               <span className="text-red-400 font-black text-lg md:text-xl">X</span>
-              <span className="text-[10px] text-slate-500 font-bold uppercase">0pt</span>
+              <span className="text-[10px] text-slate-500 font-bold uppercase">{scoringRules.cellPoints.X}pt</span>
             </div>
             <div className="flex items-center gap-1 md:gap-2">
               <span className="text-amber-400 text-lg md:text-xl">⭐</span>
-              <span className="text-[10px] text-slate-500 font-bold uppercase">2pts</span>
+              <span className="text-[10px] text-slate-500 font-bold uppercase">{scoringRules.cellPoints.STAR}pts</span>
             </div>
             <div className="w-[1px] h-4 bg-slate-700"></div>
             <span className="text-[8px] md:text-[10px] text-slate-500 font-medium uppercase italic hidden xs:block">Tap cell to score</span>
           </div>
         )
       }
+
+      {/* Reactions bar, with a JinxO shout for every answer I share with exactly one other player */}
+      <div className="fixed right-3 bottom-24 z-20 flex flex-col items-end gap-2">
+        {myJinxes.map(j => (
+          <button
+            key={`${j.topic}-${j.key}`}
+            onClick={() => shoutJinx(j.partner, j.word)}
+            className="px-3 py-2 rounded-full bg-amber-500 text-slate-950 text-xs font-black shadow-lg hover:bg-amber-400 active:scale-95 transition-all max-w-[180px] truncate"
+            title={`You and ${memberName(j.partner)} both wrote "${j.word}"`}
+          >
+            📣 JinxO! with {memberName(j.partner)}
+          </button>
+        ))}
+        <div className="bg-slate-900/90 backdrop-blur-md rounded-full border border-slate-700 shadow-2xl p-1 flex flex-col">
+          {REACTIONS.map(emoji => (
+            <button
+              key={emoji}
+              onClick={() => sendReaction(emoji)}
+              className="w-9 h-9 rounded-full text-lg hover:bg-slate-800 active:scale-90 transition-all"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="fixed right-16 bottom-24 z-20 pointer-events-none flex flex-col items-end gap-1">
+        {reactions.map(e => (
+          <div key={e.id} className="float-up flex items-center gap-2 bg-slate-900/80 rounded-full pl-3 pr-2 py-1 text-xs text-slate-300 shadow-lg">
+            <span className="truncate max-w-[100px]">{memberName(e.by)}</span>
+            <span className="text-2xl">{e.emoji}</span>
+          </div>
+        ))}
+      </div>
+
+      {shout && (
+        <div className="fixed inset-0 z-50 pointer-events-none flex items-center justify-center">
+          <div key={shout.id} className="shout-pop text-center bg-slate-950/80 backdrop-blur-sm rounded-[2.5rem] px-12 py-10 border-4 border-amber-400 shadow-2xl">
+            <p className="text-6xl md:text-8xl font-black text-amber-300 tracking-tight">JinxO!</p>
+            <p className="text-2xl md:text-3xl font-extrabold text-slate-100 mt-4">
+              {memberName(shout.by)} & {memberName(shout.partner)}
+            </p>
+            {shout.word && <p className="text-lg text-slate-400 mt-2">both wrote "{shout.word}"</p>}
+          </div>
+        </div>
+      )}
     </div >
   );
 };
@@ -0,0 +1,303 @@
+import React, { useEffect, useState } from 'react';
+import { GamePhase, GameRoom, Player, RoomEvent } from './types';
+import { db } from './store';
+import { REACTION_MS } from './room-store';
+import { groupAnswers } from './matching';
+import {
+  formatTime,
+  getActivePlayers,
+  getBoardSize,
+  getMatchWinners,
+  getRoundHistory,
+  getSpectators,
+  getTopicMode,
+  isMatchOver,
+  rankTopicCandidates,
+} from './game-engine';
+
+// How long each topic stays on screen during the VALIDATION reveal
+const REVEAL_SECONDS = 10;
+
+const PHASE_TITLES: Record<GamePhase, string> = {
+  [GamePhase.LOBBY]: 'Waiting for players',
+  [GamePhase.SELECT_TOPICS]: 'Choosing topics',
+  [GamePhase.WRITING]: 'Writing',
+  [GamePhase.SCORING]: 'Marking answers',
+  [GamePhase.VALIDATION]: 'The reveal',
+  [GamePhase.FINISHED]: 'Leaderboard',
+};
+
+/**
+ * Read-only big-screen view of a room, opened with `?tv=ROOM_CODE`.
+ * It signs in (the database only serves signed-in users) but never joins,
+ * so it is neither a player nor a spectator; everything comes from db.getRoom.
+ */
+const TvDisplay: React.FC<{ roomId: string }> = ({ roomId }) => {
+  const [room, setRoom] = useState<GameRoom | null>(null);
+  const [error, setError] = useState('');
+  const [clock, setClock] = useState(() => db.serverNow());
+  const [revealTopic, setRevealTopic] = useState(0);
+  const [reactions, setReactions] = useState<RoomEvent[]>([]);
+  const [shout, setShout] = useState<RoomEvent | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let unsubscribe = () => {};
+    db.signIn()
+      .then(() => {
+        if (!cancelled) unsubscribe = db.getRoom(roomId.toUpperCase(), setRoom);
+      })
+      .catch(err => {
+        console.error("TV: Could not sign in", err);
+        setError(err.message || "Could not connect");
+      });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [roomId]);
+
+  // Reactions and JinxO shouts, once the room is loaded (and so signed in)
+  useEffect(() => {
+    if (!room?.id) return;
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    const unsubscribe = db.watchEvents(room.id, event => {
+      if (event.type === 'jinx') {
+        setShout(event);
+        timers.push(setTimeout(() => setShout(current => current?.id === event.id ? null : current), REACTION_MS));
+      } else {
+        setReactions(current => [...current.slice(-19), event]);
+        timers.push(setTimeout(() => setReactions(current => current.filter(e => e.id !== event.id)), REACTION_MS));
+      }
+    });
+    return () => {
+      unsubscribe();
+      timers.forEach(clearTimeout);
+    };
+  }, [room?.id]);
+
+  // Tick while a writing countdown is running
+  useEffect(() => {
+    if (room?.phase !== GamePhase.WRITING || !room.writingDeadline) return;
+    const timer = setInterval(() => setClock(db.serverNow()), 500);
+    return () => clearInterval(timer);
+  }, [room?.phase, room?.writingDeadline]);
+
+  // Walk through the topics one at a time while answers are being checked
+  useEffect(() => {
+    setRevealTopic(0);
+    if (room?.phase !== GamePhase.VALIDATION) return;
+    const timer = setInterval(() => setRevealTopic(t => t + 1), REVEAL_SECONDS * 1000);
+    return () => clearInterval(timer);
+  }, [room?.phase, room?.round]);
+
+  if (error || !room) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-slate-950 text-slate-400 gap-4">
+        <h1 className="text-6xl font-black text-transparent bg-clip-text jinx-gradient">JinxO</h1>
+        <p className="text-xl">{error ? `😕 ${error}` : `Waiting for room ${roomId.toUpperCase()}...`}</p>
+      </div>
+    );
+  }
+
+  const size = getBoardSize(room);
+  const players = getActivePlayers(room);
+  const names = (id?: string) => (id && (room.players?.[id]?.name || room.spectators?.[id]?.name)) || '?';
+
+  const renderLobby = () => {
+    const spectators = getSpectators(room);
+    return (
+      <div className="flex flex-col items-center gap-10">
+        <div className="text-center">
+          <p className="text-slate-400 text-2xl uppercase tracking-[0.3em] mb-4">Join with code</p>
+          <p className="text-[10rem] leading-none font-black font-mono tracking-widest text-indigo-300">{room.id}</p>
+          <p className="text-slate-500 text-xl mt-4">{window.location.host}</p>
+        </div>
+        <div className="flex flex-wrap justify-center gap-4 max-w-5xl">
+          {players.map(p => (
+            <div key={p.id} className="tv-reveal px-6 py-3 rounded-2xl bg-slate-800 border border-slate-700 text-3xl font-bold">
+              {p.id === room.hostId && '👑 '}{p.name}
+            </div>
+          ))}
+        </div>
+        {spectators.length > 0 && (
+          <p className="text-slate-500 text-xl">👀 {spectators.map(s => s.name).join(', ')}</p>
+        )}
+      </div>
+    );
+  };
+
+  const renderTopicSelection = () => {
+    const picker = room.topicPicker ? names(room.topicPicker) : names(room.hostId);
+    if (getTopicMode(room) !== 'vote') {
+      return <p className="text-4xl text-slate-300 text-center animate-pulse">{picker} is choosing the topics...</p>;
+    }
+    return (
+      <div className="max-w-4xl mx-auto">
+        <p className="text-4xl text-slate-300 text-center mb-8">Vote for {size} topics!</p>
+        <div className="space-y-3">
+          {rankTopicCandidates(room).map(c => (
+            <div key={c.id} className="flex justify-between items-center px-6 py-4 rounded-2xl bg-slate-800 text-3xl">
+              <span className="font-bold">{c.topic}</span>
+              <span className="text-indigo-300 font-mono">{Object.keys(c.votes || {}).length} 🗳</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderTopics = () => (
+    <div className="flex flex-wrap justify-center gap-4 mb-10">
+      {(room.topics || []).map((t, i) => (
+        <div key={i} className="px-6 py-3 rounded-2xl bg-indigo-900/50 border border-indigo-500/40 text-3xl font-bold text-indigo-100">
+          {t}
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderProgress = () => {
+    const cells = size * size;
+    const done = (p: Player) =>
+      room.phase === GamePhase.WRITING ? (p.answeredCount || 0) : p.answersPublished ? cells : 0;
+    const secondsLeft = room.writingDeadline ? Math.max(0, Math.ceil((room.writingDeadline - clock) / 1000)) : null;
+
+    return (
+      <div className="max-w-5xl mx-auto">
+        {renderTopics()}
+        {room.phase === GamePhase.WRITING && secondsLeft !== null && (
+          <p className={`text-center text-7xl font-black font-mono mb-10 ${secondsLeft <= 10 ? 'text-red-400 animate-pulse' : 'text-slate-100'}`}>
+            ⏱ {formatTime(secondsLeft)}
+          </p>
+        )}
+        {room.phase === GamePhase.SCORING && (
+          <p className="text-center text-4xl text-slate-300 mb-10">✋ Pens down! Collecting answers...</p>
+        )}
+        <div className="space-y-4">
+          {players.map(p => (
+            <div key={p.id} className="flex items-center gap-6 text-3xl">
+              <span className="w-64 truncate font-bold">{p.name}</span>
+              <div className="flex-1 h-6 rounded-full bg-slate-800 overflow-hidden">
+                <div className="h-full jinx-gradient transition-all duration-500" style={{ width: `${(done(p) / cells) * 100}%` }} />
+              </div>
+              <span className="w-24 text-right font-mono text-slate-400">{done(p) === cells ? '✅' : `${done(p)}/${cells}`}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderReveal = () => {
+    const topic = revealTopic % size;
+    const groups = groupAnswers(room.players, topic, size, room.merges);
+    return (
+      <div className="max-w-6xl mx-auto">
+        <div className="flex justify-center gap-3 mb-6">
+          {Array.from({ length: size }, (_, t) => (
+            <span key={t} className={`w-4 h-4 rounded-full ${t === topic ? 'bg-indigo-400' : 'bg-slate-700'}`} />
+          ))}
+        </div>
+        <h2 key={`title-${revealTopic}`} className="tv-reveal text-center text-7xl font-black text-indigo-200 mb-12">
+          {room.topics?.[topic]}
+        </h2>
+        <div className="grid grid-cols-2 lg:grid-cols-3 gap-6">
+          {groups.map((g, k) => {
+            const jinx = g.playerIds.length === 2;
+            const shared = g.playerIds.length > 2;
+            return (
+              <div
+                key={`${revealTopic}-${g.key}`}
+                className={`tv-reveal rounded-3xl p-6 border-2 ${jinx ? 'border-amber-400 bg-amber-900/30' : shared ? 'border-green-500 bg-green-900/20' : 'border-slate-700 bg-slate-800/60'}`}
+                style={{ animationDelay: `${k * 0.5}s` }}
+              >
+                <div className="flex justify-between items-start gap-3">
+                  <p className="text-4xl font-black break-words">{g.words.join(' / ')}</p>
+                  <span className={`text-3xl font-black ${jinx ? 'text-amber-400' : shared ? 'text-green-400' : 'text-red-400'}`}>
+                    {jinx ? '⭐' : shared ? 'O' : 'X'}
+                  </span>
+                </div>
+                <p className="text-xl text-slate-400 mt-3">{g.playerIds.map(names).join(', ')}</p>
+                {jinx && <p className="text-2xl font-black text-amber-300 mt-2 animate-pulse">JinxO!</p>}
+              </div>
+            );
+          })}
+        </div>
+        {groups.length === 0 && <p className="text-center text-3xl text-slate-500">Nobody answered this one 🤐</p>}
+      </div>
+    );
+  };
+
+  const renderLeaderboard = () => {
+    const ranked = (Object.values(room.players || {}) as Player[]).sort((a, b) => (b.totalScore || 0) - (a.totalScore || 0));
+    const winners = getMatchWinners(room);
+    const lastRound = getRoundHistory(room).slice(-1)[0];
+    return (
+      <div className="max-w-4xl mx-auto">
+        {isMatchOver(room) && (
+          <p className="tv-reveal text-center text-6xl font-black text-amber-300 mb-10">
+            🏆 {winners.map(w => w.name).join(' & ')} {winners.length > 1 ? 'win' : 'wins'}!
+          </p>
+        )}
+        <div className="space-y-4">
+          {ranked.map((p, i) => (
+            <div
+              key={p.id}
+              className={`tv-reveal flex items-center gap-6 px-8 py-5 rounded-3xl text-4xl ${i === 0 ? 'jinx-gradient' : 'bg-slate-800'} ${p.status === 'leaved' ? 'opacity-50' : ''}`}
+              style={{ animationDelay: `${(ranked.length - i) * 0.4}s` }}
+            >
+              <span className="w-16 font-black font-mono">{i + 1}</span>
+              <span className="flex-1 font-bold truncate">{p.name}</span>
+              {lastRound?.players?.[p.id] && (
+                <span className="text-2xl text-slate-300 font-mono">+{lastRound.players[p.id].score.total}</span>
+              )}
+              <span className="font-black font-mono">{p.totalScore || 0}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100 p-12">
+      <header className="flex justify-between items-center mb-12">
+        <h1 className="text-5xl font-black text-transparent bg-clip-text jinx-gradient">JinxO</h1>
+        <div className="text-right">
+          <p className="text-3xl font-bold text-slate-300">{PHASE_TITLES[room.phase]}</p>
+          <p className="text-xl text-slate-500 font-mono">
+            Room {room.id}{room.phase !== GamePhase.LOBBY && ` · Round ${room.round || 1}${room.matchLength ? ` of ${room.matchLength}` : ''}`}
+          </p>
+        </div>
+      </header>
+
+      {room.phase === GamePhase.LOBBY && renderLobby()}
+      {room.phase === GamePhase.SELECT_TOPICS && renderTopicSelection()}
+      {(room.phase === GamePhase.WRITING || room.phase === GamePhase.SCORING) && renderProgress()}
+      {room.phase === GamePhase.VALIDATION && renderReveal()}
+      {room.phase === GamePhase.FINISHED && renderLeaderboard()}
+
+      <div className="fixed right-10 bottom-10 flex flex-col items-end gap-2 pointer-events-none">
+        {reactions.map(e => (
+          <div key={e.id} className="float-up flex items-center gap-3 bg-slate-900/80 rounded-full pl-5 pr-3 py-2 text-2xl text-slate-300">
+            <span>{names(e.by)}</span>
+            <span className="text-5xl">{e.emoji}</span>
+          </div>
+        ))}
+      </div>
+
+      {shout && (
+        <div className="fixed inset-0 flex items-center justify-center pointer-events-none">
+          <div key={shout.id} className="shout-pop text-center bg-slate-950/85 rounded-[3rem] px-20 py-14 border-8 border-amber-400">
+            <p className="text-[9rem] leading-none font-black text-amber-300">JinxO!</p>
+            <p className="text-6xl font-extrabold mt-6">{names(shout.by)} & {names(shout.partner)}</p>
+            {shout.word && <p className="text-3xl text-slate-400 mt-4">both wrote "{shout.word}"</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TvDisplay;
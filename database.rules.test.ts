@@ -0,0 +1,289 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, initializeTestEnvironment, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { applyAction, createPlayer, hostChangeUpdates } from './game-engine';
+import { GamePhase, GameRoom } from './types';
+
+// Runs against the Realtime Database emulator only: `npm run test:rules` starts it and sets the host
+const emulator = process.env.FIREBASE_DATABASE_EMULATOR_HOST;
+
+// Host h with player a; c, s and x are signed in but not in the room
+const makeRoom = (phase: GamePhase, extra: Partial<GameRoom> = {}): GameRoom => ({
+  id: '1234',
+  hostId: 'h',
+  topics: ['Fruits', 'Colors', 'Pets'],
+  phase,
+  players: {
+    h: { ...createPlayer('h', 'H'), isHost: true },
+    a: createPlayer('a', 'A')
+  },
+  createdAt: Date.now(),
+  lastActiveAt: Date.now(),
+  ...extra
+});
+
+describe.skipIf(!emulator)('database rules', () => {
+  let env: RulesTestEnvironment;
+
+  const as = (uid: string) => env.authenticatedContext(uid).database();
+  const seed = (path: string, value: unknown) =>
+    env.withSecurityRulesDisabled(ctx => ctx.database().ref(path).set(value));
+
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({
+      projectId: 'demo-jinxo',
+      database: { rules: readFileSync('database.rules.json', 'utf8') }
+    });
+  });
+  afterAll(() => env?.cleanup());
+  beforeEach(() => env.clearDatabase());
+
+  describe('join', () => {
+    it('lets a signed-in user add their own player node in the lobby', async () => {
+      await seed('rooms/1234', makeRoom(GamePhase.LOBBY));
+      await assertSucceeds(as('c').ref('rooms/1234').update({ 'players/c': createPlayer('c', 'C'), lastActiveAt: Date.now() }));
+    });
+
+    it('refuses signed-out users, other people\'s nodes and self-made hosts', async () => {
+      await seed('rooms/1234', makeRoom(GamePhase.LOBBY));
+      await assertFails(env.unauthenticatedContext().database().ref('rooms/1234/players/c').set(createPlayer('c', 'C')));
+      await assertFails(as('c').ref('rooms/1234/players/x').set(createPlayer('x', 'X')));
+      await assertFails(as('c').ref('rooms/1234/players/c').set({ ...createPlayer('c', 'C'), isHost: true }));
+      await assertFails(as('c').ref('rooms/1234/players/c').set({ ...createPlayer('c', 'C'), totalScore: 50 }));
+    });
+
+    it('keeps locked rooms and banned players out', async () => {
+      await seed('rooms/1234', makeRoom(GamePhase.LOBBY, { locked: true }));
+      await assertFails(as('c').ref('rooms/1234/players/c').set(createPlayer('c', 'C')));
+      await seed('rooms/1234', makeRoom(GamePhase.LOBBY, { banned: { c: 'C' } }));
+      await assertFails(as('c').ref('rooms/1234/players/c').set(createPlayer('c', 'C')));
+    });
+
+    it('lets a removed player replace the leftover mark of their old node', async () => {
+      await seed('rooms/1234', makeRoom(GamePhase.LOBBY));
+      await seed('rooms/1234/players/c/status', 'leaved');
+      await assertSucceeds(as('c').ref('rooms/1234/players/c').set(createPlayer('c', 'C')));
+      await assertFails(as('c').ref('rooms/1234/players/c').set(createPlayer('c', 'C')));
+    });
+
+    it('refuses new players once the round is under way', async () => {
+      await seed('rooms/1234', makeRoom(GamePhase.WRITING));
+      await assertFails(as('c').ref('rooms/1234/players/c').set(createPlayer('c', 'C')));
+    });
+
+    it('lets players change only their own name and status', async () => {
+      await seed('rooms/1234', makeRoom(GamePhase.LOBBY));
+      await assertSucceeds(as('a').ref('rooms/1234/players/a').update({ name: 'Ann', status: 'leaved' }));
+      await assertFails(as('a').ref('rooms/1234/players/h/status').set('leaved'));
+      await assertFails(as('a').ref('rooms/1234/players/a/totalScore').set(99));
+    });
+  });
+
+  describe('phase', () => {
+    it('lets the host move the game along but not a plain player', async () => {
+      await seed('rooms/1234', makeRoom(GamePhase.LOBBY));
+      await assertFails(as('a').ref('rooms/1234/phase').set(GamePhase.SELECT_TOPICS));
+      await assertSucceeds(as('h').ref('rooms/1234/phase').set(GamePhase.SELECT_TOPICS));
+      await assertFails(as('h').ref('rooms/1234/phase').set('PAUSED'));
+    });
+
+    it('lets any player lock the boards once the deadline has passed', async () => {
+      await seed('rooms/1234', makeRoom(GamePhase.WRITING, { writingDeadline: Date.now() + 60_000 }));
+      await assertFails(as('a').ref('rooms/1234/phase').set(GamePhase.SCORING));
+      await seed('rooms/1234/writingDeadline', Date.now() - 1000);
+      await assertSucceeds(as('a').ref('rooms/1234/phase').set(GamePhase.SCORING));
+      await assertFails(as('c').ref('rooms/1234/phase').set(GamePhase.VALIDATION));
+    });
+
+    it('lets the topic picker start writing in rotating mode', async () => {
+      await seed('rooms/1234', makeRoom(GamePhase.SELECT_TOPICS, { topicMode: 'rotate', topicPicker: 'a' }));
+      await assertSucceeds(as('a').ref('rooms/1234').update({ topics: ['Cars', 'Birds', 'Towns'], phase: GamePhase.WRITING }));
+    });
+  });
+
+  describe('host', () => {
+    it('keeps hostId while the host is still around', async () => {
+      await seed('rooms/1234', makeRoom(GamePhase.LOBBY));
+      await assertFails(as('a').ref('rooms/1234').update({ hostId: 'a', 'players/a/isHost': true, 'players/h/isHost': false }));
+    });
+
+    it('lets a player take over once the host has left', async () => {
+      await seed('rooms/1234', makeRoom(GamePhase.LOBBY));
+      await seed('rooms/1234/players/h/status', 'leaved');
+      await assertSucceeds(as('a').ref('rooms/1234').update({ hostId: 'a', 'players/a/isHost': true, 'players/h/isHost': false }));
+    });
+
+    it('lets the host hand over hostId and the isHost flags together', async () => {
+      await seed('rooms/1234', makeRoom(GamePhase.LOBBY));
+      await assertFails(as('h').ref('rooms/1234').update({ hostId: 'a', 'players/a/isHost': false }));
+      await assertSucceeds(as('h').ref('rooms/1234').update({ hostId: 'a', 'players/a/isHost': true, 'players/h/isHost': false }));
+    });
+
+    it('lets a player hand the host role on, clearing only a co-host flag that is there', async () => {
+      const room = makeRoom(GamePhase.LOBBY, { players: { ...makeRoom(GamePhase.LOBBY).players, b: createPlayer('b', 'B') } });
+      await seed('rooms/1234', room);
+      await seed('rooms/1234/players/h/status', 'leaved');
+      await assertSucceeds(as('a').ref('rooms/1234').update(hostChangeUpdates(room, 'b')));
+
+      // Now b is host and a a co-host; b leaves and a takes over
+      await seed('rooms/1234/coHosts', { a: true });
+      await seed('rooms/1234/players/b/status', 'leaved');
+      await assertSucceeds(as('a').ref('rooms/1234').update(hostChangeUpdates({ ...room, hostId: 'b', coHosts: { a: true } }, 'a')));
+    });
+
+    it('lets only the host delete a live room', async () => {
+      await seed('rooms/1234', makeRoom(GamePhase.LOBBY));
+      await assertFails(as('a').ref('rooms/1234').remove());
+      await assertFails(as('c').ref('rooms/1234').remove());
+      await assertSucceeds(as('h').ref('rooms/1234').remove());
+    });
+
+    it('lets anyone signed in sweep a room idle for over two hours', async () => {
+      const old = Date.now() - 3 * 60 * 60 * 1000;
+      await seed('rooms/1234', makeRoom(GamePhase.LOBBY, { createdAt: old, lastActiveAt: old }));
+      await assertSucceeds(as('c').ref('rooms/1234').remove());
+    });
+  });
+
+  describe('co-hosts', () => {
+    const withCoHost = (phase: GamePhase) => makeRoom(phase, { coHosts: { a: true }, players: { ...makeRoom(phase).players, b: createPlayer('b', 'B') } });
+
+    it('lets a co-host move the game along', async () => {
+      await seed('rooms/1234', withCoHost(GamePhase.LOBBY));
+      await assertSucceeds(as('a').ref('rooms/1234').update({ phase: GamePhase.SELECT_TOPICS, topicPicker: null }));
+      await assertSucceeds(as('a').ref('rooms/1234').update({ topics: ['Cars', 'Birds', 'Towns'], phase: GamePhase.WRITING, writingDeadline: null }));
+      await assertFails(as('b').ref('rooms/1234/phase').set(GamePhase.SCORING));
+    });
+
+    it('lets a co-host start the next round but not finish this one', async () => {
+      const room = withCoHost(GamePhase.VALIDATION);
+      await seed('rooms/1234', room);
+      await assertFails(as('a').ref('rooms/1234/phase').set(GamePhase.FINISHED));
+      await seed('rooms/1234/phase', GamePhase.FINISHED);
+      await assertSucceeds(as('a').ref('rooms/1234').update(applyAction({ ...room, phase: GamePhase.FINISHED }, 'a', { type: 'RESTART_ROUND' })));
+    });
+
+    it('keeps co-hosts away from the host role, moderation and totals', async () => {
+      await seed('rooms/1234', withCoHost(GamePhase.LOBBY));
+      await assertFails(as('a').ref('rooms/1234/players/h').remove());
+      await assertFails(as('a').ref('rooms/1234').update({ hostId: 'a', 'players/a/isHost': true, 'players/h/isHost': false }));
+      await assertFails(as('a').ref('rooms/1234').update({ 'players/b': null, 'banned/b': 'B' }));
+      await assertFails(as('a').ref('rooms/1234/players/a/totalScore').set(99));
+      await assertFails(as('a').ref('rooms/1234/coHosts/b').set(true));
+      await assertFails(as('a').ref('rooms/1234').remove());
+    });
+  });
+
+  describe('answers', () => {
+    it('keeps private answers to their owner while writing', async () => {
+      await seed('rooms/1234', makeRoom(GamePhase.WRITING));
+      await assertSucceeds(as('a').ref('answers/1234/a/r1/0').set('apple'));
+      await assertSucceeds(as('a').ref('answers/1234/a').get());
+      await assertFails(as('h').ref('answers/1234/a').get());
+      await assertFails(as('h').ref('answers/1234/a/r1/0').set('pear'));
+    });
+
+    it('refuses new answers after the boards lock', async () => {
+      await seed('rooms/1234', makeRoom(GamePhase.SCORING));
+      await assertFails(as('a').ref('answers/1234/a/r1/0').set('apple'));
+    });
+
+    it('publishes only the words on the answer sheet', async () => {
+      await seed('rooms/1234', makeRoom(GamePhase.SCORING, { round: 2 }));
+      await seed('answers/1234/a/r2/0', 'apple');
+      await assertFails(as('a').ref('rooms/1234/players/a').update({ 'grid/0/word': 'pear', answersPublished: true }));
+      await assertFails(as('a').ref('rooms/1234/players/a').update({ 'grid/1/word': 'red', answersPublished: true }));
+      await assertSucceeds(as('a').ref('rooms/1234/players/a').update({ 'grid/0/word': 'apple', 'grid/1/word': '', answersPublished: true }));
+      await assertFails(as('a').ref('rooms/1234/players/a/grid/0/word').set('apple'));
+    });
+  });
+
+  describe('validation', () => {
+    const withWords = (phase: GamePhase) => {
+      const room = makeRoom(phase, { players: { ...makeRoom(phase).players, b: createPlayer('b', 'B') } });
+      room.players.a.grid[0] = { word: 'apple', score: 'X' };
+      room.players.b.grid[0] = { word: 'pear', score: 'X' };
+      return room;
+    };
+
+    it('keeps marks with their owner, and only while scoring', async () => {
+      await seed('rooms/1234', withWords(GamePhase.SCORING));
+      await assertSucceeds(as('a').ref('rooms/1234/players/a/grid/0/score').set('O'));
+      await assertFails(as('a').ref('rooms/1234/players/b/grid/0/score').set('O'));
+      await seed('rooms/1234/phase', GamePhase.VALIDATION);
+      await assertFails(as('a').ref('rooms/1234/players/a/grid/0/score').set('STAR'));
+    });
+
+    it('lets players open challenges and cast only their own votes', async () => {
+      const room = withWords(GamePhase.VALIDATION);
+      await seed('rooms/1234', room);
+      const opened = applyAction(room, 'a', { type: 'OPEN_CHALLENGE', challengeId: 'c1', playerId: 'b', cell: 0, score: 'O' });
+      await assertFails(as('b').ref('rooms/1234').update(opened));
+      await assertSucceeds(as('a').ref('rooms/1234').update(opened));
+      await assertSucceeds(as('b').ref('rooms/1234/challenges/c1/votes/b').set('X'));
+      await assertFails(as('b').ref('rooms/1234/challenges/c1/votes/a').set('X'));
+      await assertFails(as('a').ref('rooms/1234/challenges/c1').remove());
+      await assertFails(as('a').ref('rooms/1234').update({ 'players/b/grid/0/score': 'O', 'settledCells/b_0': true }));
+    });
+
+    it('lets players propose merges and vote, but not merge', async () => {
+      const room = withWords(GamePhase.VALIDATION);
+      await seed('rooms/1234', room);
+      await assertFails(as('a').ref('rooms/1234/merges').set([{ topic: 0, keys: ['apple', 'pear'], by: 'a' }]));
+      await assertSucceeds(as('a').ref('rooms/1234').update(applyAction(room, 'a', { type: 'MERGE_GROUPS', proposalId: 'm1', topic: 0, keys: ['apple', 'pear'], words: ['apple', 'pear'] })));
+      await assertFails(as('b').ref('rooms/1234/mergeProposals/m1/votes/h').set(true));
+      await assertSucceeds(as('b').ref('rooms/1234/mergeProposals/m1/votes/b').set(true));
+      await assertFails(as('b').ref('rooms/1234/mergeProposals/m1').remove());
+    });
+
+    it('lets the host apply what the room voted for', async () => {
+      const room = withWords(GamePhase.VALIDATION);
+      room.mergeProposals = { m1: { id: 'm1', topic: 0, keys: ['apple', 'pear'], words: ['apple', 'pear'], proposedBy: 'a', votes: { a: true, b: true } } };
+      room.challenges = { c1: { id: 'c1', playerId: 'b', cell: 0, challengerId: 'a', currentScore: 'X', votes: { a: 'O', h: 'O' } } };
+      await seed('rooms/1234', room);
+      await assertSucceeds(as('h').ref('rooms/1234').update(applyAction(room, 'h', { type: 'SETTLE_CHALLENGE', challengeId: 'c1' })));
+      await assertSucceeds(as('h').ref('rooms/1234').update(applyAction(room, 'h', { type: 'APPLY_MERGE', proposalId: 'm1' })));
+    });
+  });
+
+  describe('spectators', () => {
+    it('lets late arrivals watch, unless banned or locked out', async () => {
+      await seed('rooms/1234', makeRoom(GamePhase.WRITING));
+      await assertSucceeds(as('s').ref('rooms/1234').update({
+        'spectators/s': { id: 's', name: 'S', status: 'active', seatNextRound: true },
+        lastActiveAt: Date.now()
+      }));
+      await assertFails(as('x').ref('rooms/1234/lastActiveAt').set(Date.now()));
+      await assertFails(as('s').ref('rooms/1234/spectators/x').set({ id: 'x', name: 'X' }));
+      await seed('rooms/1234/banned', { x: 'X' });
+      await assertFails(as('x').ref('rooms/1234/spectators/x').set({ id: 'x', name: 'X' }));
+    });
+
+    it('does not let spectators move the game', async () => {
+      await seed('rooms/1234', makeRoom(GamePhase.WRITING, { writingDeadline: Date.now() - 1000, spectators: { s: { id: 's', name: 'S' } } }));
+      await assertFails(as('s').ref('rooms/1234/phase').set(GamePhase.SCORING));
+    });
+  });
+
+  describe('events', () => {
+    const event = (by: string) => ({ id: 'e1', type: 'reaction', by, at: Date.now(), emoji: '🎉' });
+
+    it('lets room members post in their own name', async () => {
+      await seed('rooms/1234', makeRoom(GamePhase.WRITING));
+      await assertSucceeds(as('a').ref('events/1234/e1').set(event('a')));
+      await assertFails(as('a').ref('events/1234/e2').set({ ...event('h'), id: 'e2' }));
+    });
+
+    it('refuses outsiders and unknown event types', async () => {
+      await seed('rooms/1234', makeRoom(GamePhase.WRITING));
+      await assertFails(as('c').ref('events/1234/e1').set(event('c')));
+      await assertFails(as('a').ref('events/1234/e1').set({ ...event('a'), type: 'shout' }));
+    });
+
+    it('lets anyone signed in trim old events', async () => {
+      await seed('rooms/1234', makeRoom(GamePhase.WRITING));
+      await seed('events/1234/e1', event('a'));
+      await assertSucceeds(as('c').ref('events/1234/e1').remove());
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { initializeApp } from "firebase/app";
-import { getDatabase } from "firebase/database";
+import { getDatabase, connectDatabaseEmulator } from "firebase/database";
+import { getAuth, connectAuthEmulator } from "firebase/auth";
 
 // TODO: Replace the following with your app's Firebase project configuration
 // See: https://firebase.google.com/docs/web/learn-more#config-object
@@ -20,4 +21,19 @@ const app = initializeApp(firebaseConfig);
 // Initialize Realtime Database and get a reference to the service
 export const database = getDatabase(app);
 
+// Players sign in anonymously; the uid is their Player.id
+export const auth = getAuth(app);
+
+// FIREBASE_EMULATOR=host:port in .env.local points the app at the local database emulator,
+// FIREBASE_AUTH_EMULATOR=host:port at the local auth emulator
+if (process.env.FIREBASE_EMULATOR) {
+    const [host, port] = process.env.FIREBASE_EMULATOR.split(':');
+    connectDatabaseEmulator(database, host, Number(port) || 9000);
+    console.log("Firebase: Using database emulator at", process.env.FIREBASE_EMULATOR);
+}
+if (process.env.FIREBASE_AUTH_EMULATOR) {
+    connectAuthEmulator(auth, `http://${process.env.FIREBASE_AUTH_EMULATOR}`, { disableWarnings: true });
+    console.log("Firebase: Using auth emulator at", process.env.FIREBASE_AUTH_EMULATOR);
+}
+
 export default app;
@@ -1,39 +1,206 @@
+import { createRoomStore, RoomUpdates, StoreBackend } from './room-store';
 
 /**
- * NOTE FOR USER: Replace these mock functions with actual Firebase Realtime Database logic.
- * 
- * import { initializeApp } from "firebase/app";
- * import { getDatabase, ref, set, onValue, update } from "firebase/database";
- * 
- * const firebaseConfig = { ... };
- * const app = initializeApp(firebaseConfig);
- * const db = getDatabase(app);
+ * In-memory stand-in for the Firebase Realtime Database, for offline development.
+ * Follows the semantics the game relies on:
+ * - update() takes slash-path keys (`players/${id}/isHost`) and applies them atomically
+ * - writing null removes a node, empty objects disappear
+ * - subscribers fire with the current value and again whenever it changes
+ * - onDisconnect updates are queued and run by disconnect(), and cancelOnDisconnect() drops them
+ * - like the security rules, writes that leave a player or spectator without its required fields are refused
+ * - signIn() hands out one random uid per backend, like a fresh anonymous account
  */
 
-export const mockDb = {
-  // These are placeholders to simulate Firebase behavior
-  saveRoom: async (room: any) => {
-    console.log('Firebase: Saving room', room);
-    localStorage.setItem(`jinx_room_${room.id}`, JSON.stringify(room));
-  },
-  
-  updateRoom: async (roomId: string, updates: any) => {
-    console.log(`Firebase: Updating room ${roomId}`, updates);
-    const existing = JSON.parse(localStorage.getItem(`jinx_room_${roomId}`) || '{}');
-    const updated = { ...existing, ...updates };
-    localStorage.setItem(`jinx_room_${roomId}`, JSON.stringify(updated));
-    // Trigger window event to simulate realtime update in this local session
-    window.dispatchEvent(new CustomEvent('roomUpdate', { detail: updated }));
-  },
-
-  getRoom: (roomId: string, callback: (room: any) => void) => {
-    const data = localStorage.getItem(`jinx_room_${roomId}`);
-    if (data) callback(JSON.parse(data));
-    
-    const handler = (e: any) => {
-        if (e.detail.id === roomId) callback(e.detail);
-    };
-    window.addEventListener('roomUpdate', handler);
-    return () => window.removeEventListener('roomUpdate', handler);
+type Listener = {
+  path: string[];
+  callback: (value: any) => void;
+  last: string;
+};
+
+const splitPath = (path: string) => path.split('/').filter(Boolean);
+
+// Fields the security rules require on every rooms/$roomId/<role>/$uid node
+const REQUIRED_FIELDS: Record<string, string[]> = {
+  players: ['id', 'name', 'isHost', 'grid', 'totalScore'],
+  spectators: ['id', 'name']
+};
+
+const clone = <T>(value: T): T =>
+  value === undefined ? (null as T) : JSON.parse(JSON.stringify(value));
+
+// Drop nulls and empty containers the way the database does
+const prune = (value: any): any => {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'object') return value;
+
+  const entries = Object.entries(value)
+    .map(([k, v]) => [k, prune(v)] as const)
+    .filter(([, v]) => v !== null);
+  if (entries.length === 0) return null;
+
+  if (Array.isArray(value)) {
+    const arr: any[] = [];
+    entries.forEach(([k, v]) => { arr[Number(k)] = v; });
+    return arr;
   }
+  return Object.fromEntries(entries);
+};
+
+export const createMemoryBackend = (name = 'MemoryDB') => {
+  let root: any = null;
+  const listeners = new Set<Listener>();
+  let disconnectQueue: { path: string; updates: RoomUpdates }[] = [];
+  const uid = Math.random().toString(36).substr(2, 9);
+
+  const read = (path: string[]) =>
+    path.reduce((node, key) => (node == null ? null : node[key] ?? null), root);
+
+  // Write without notifying; callers notify once per operation
+  const write = (path: string[], value: any) => {
+    if (path.length === 0) {
+      root = prune(clone(value));
+      return;
+    }
+    if (root === null || typeof root !== 'object') root = {};
+    let node = root;
+    path.slice(0, -1).forEach(key => {
+      if (node[key] === null || node[key] === undefined || typeof node[key] !== 'object') node[key] = {};
+      node = node[key];
+    });
+    node[path[path.length - 1]] = clone(value);
+    root = prune(root);
+  };
+
+  const notify = () => {
+    listeners.forEach(listener => {
+      const value = read(listener.path);
+      const json = JSON.stringify(value);
+      if (json === listener.last) return;
+      listener.last = json;
+      listener.callback(clone(value));
+    });
+  };
+
+  const applyUpdate = (path: string, updates: RoomUpdates) => {
+    Object.entries(updates).forEach(([key, value]) => {
+      write([...splitPath(path), ...splitPath(key)], value);
+    });
+  };
+
+  // First player or spectator node at or below path that is missing a required field.
+  // Loading the whole database at once (path '') is taken as is.
+  const findIncompleteMember = (path: string[]): string | null => {
+    if (path[0] !== 'rooms') return null;
+    const roomIds = path.length > 1 ? [path[1]] : Object.keys(read(['rooms']) || {});
+    for (const roomId of roomIds) {
+      const roles = path.length > 2 ? [path[2]].filter(role => REQUIRED_FIELDS[role]) : Object.keys(REQUIRED_FIELDS);
+      for (const role of roles) {
+        const ids = path.length > 3 ? [path[3]] : Object.keys(read(['rooms', roomId, role]) || {});
+        for (const id of ids) {
+          const node = read(['rooms', roomId, role, id]);
+          if (node && REQUIRED_FIELDS[role].some(field => node[field] == null)) return `rooms/${roomId}/${role}/${id}`;
+        }
+      }
+    }
+    return null;
+  };
+
+  // Run a write touching these paths, undoing it if it leaves an incomplete member behind
+  const guarded = (paths: string[], op: () => void) => {
+    const before = clone(root);
+    op();
+    const incomplete = paths.map(p => findIncompleteMember(splitPath(p))).find(Boolean);
+    if (incomplete) {
+      root = before;
+      throw new Error(`${name}: Permission denied, ${incomplete} would be missing required fields`);
+    }
+  };
+
+  const updatedPaths = (path: string, updates: RoomUpdates) =>
+    Object.keys(updates).map(key => [...splitPath(path), ...splitPath(key)].join('/'));
+
+  const backend: StoreBackend & {
+    disconnect: () => Promise<void>;
+    dump: () => any;
+  } = {
+    name,
+
+    get: async (path: string) => clone(read(splitPath(path))),
+
+    set: async (path: string, value: any) => {
+      guarded([path], () => write(splitPath(path), value));
+      notify();
+    },
+
+    update: async (path: string, updates: RoomUpdates) => {
+      guarded(updatedPaths(path, updates), () => applyUpdate(path, updates));
+      notify();
+    },
+
+    remove: async (path: string) => {
+      guarded([path], () => write(splitPath(path), null));
+      notify();
+    },
+
+    subscribe: (path, callback) => {
+      const value = read(splitPath(path));
+      const listener: Listener = { path: splitPath(path), callback, last: JSON.stringify(value) };
+      listeners.add(listener);
+      callback(clone(value));
+      return () => { listeners.delete(listener); };
+    },
+
+    onDisconnectUpdate: async (path: string, updates: RoomUpdates) => {
+      disconnectQueue.push({ path, updates });
+    },
+
+    cancelOnDisconnect: async (path: string) => {
+      disconnectQueue = disconnectQueue.filter(entry => entry.path !== path);
+    },
+
+    // Single-threaded, so read-apply-write cannot interleave with another write
+    transaction: async (path: string, apply: (value: any) => any) => {
+      const next = apply(clone(read(splitPath(path))));
+      if (next === undefined) return false;
+      guarded([path], () => write(splitPath(path), next));
+      notify();
+      return true;
+    },
+
+    queryBefore: async (path: string, child: string, before: number, limit: number) => {
+      const node = read(splitPath(path)) || {};
+      const entries = Object.entries(node)
+        .filter(([, value]: [string, any]) => value?.[child] == null || value[child] <= before)
+        .sort(([, a]: [string, any], [, b]: [string, any]) => (a?.[child] ?? -Infinity) - (b?.[child] ?? -Infinity))
+        .slice(0, limit);
+      return clone(Object.fromEntries(entries));
+    },
+
+    serverNow: () => Date.now(),
+
+    signIn: async () => uid,
+
+    // Simulate this client's connection dropping: run the queued onDisconnect writes
+    disconnect: async () => {
+      const queue = disconnectQueue;
+      disconnectQueue = [];
+      queue.forEach(({ path, updates }) => {
+        try {
+          guarded(updatedPaths(path, updates), () => applyUpdate(path, updates));
+        } catch (error) {
+          console.warn(`${name}: Dropped onDisconnect write`, path, error);
+        }
+      });
+      notify();
+    },
+
+    // Snapshot of the whole database, for debugging
+    dump: () => clone(root),
+  };
+
+  return backend;
 };
+
+export const memoryBackend = createMemoryBackend();
+
+export const mockDb = createRoomStore(memoryBackend);
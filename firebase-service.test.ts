@@ -0,0 +1,29 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import { signOut } from 'firebase/auth';
+import { auth } from './firebase-config';
+import { firebaseBackend } from './firebase-service';
+
+// Runs against the Auth emulator only: `npm run test:rules` starts it and sets the host
+const emulator = process.env.FIREBASE_AUTH_EMULATOR_HOST;
+
+describe.skipIf(!emulator)('anonymous sign-in', () => {
+  afterAll(() => signOut(auth));
+
+  it('signs in anonymously and hands out the account uid', async () => {
+    const uid = await firebaseBackend.signIn();
+    expect(uid).toBeTruthy();
+    expect(auth.currentUser?.isAnonymous).toBe(true);
+    expect(auth.currentUser?.uid).toBe(uid);
+  });
+
+  it('keeps the same uid while the account is signed in', async () => {
+    const uid = await firebaseBackend.signIn();
+    expect(await firebaseBackend.signIn()).toBe(uid);
+  });
+
+  it('gets a new uid once the account is gone', async () => {
+    const uid = await firebaseBackend.signIn();
+    await signOut(auth);
+    expect(await firebaseBackend.signIn()).not.toBe(uid);
+  });
+});
@@ -1,192 +1,62 @@
-import { ref, set, update, onValue, onDisconnect, remove } from "firebase/database";
-import { database } from "./firebase-config";
-import { GameRoom } from "./types";
-
-export const dbService = {
-    saveRoom: async (room: GameRoom) => {
-        try {
-            console.log('Firebase: Attempting to save room', room.id);
-            const roomRef = ref(database, `rooms/${room.id}`);
-            await set(roomRef, room);
-
-            // Auto-delete room if host disconnects - REMOVED to persist room
-            // onDisconnect(roomRef).remove().catch(err => ...);
-
-            console.log('Firebase: Room saved successfully', room.id);
-        } catch (error) {
-            console.error('Firebase: Error saving room', room.id, error);
-            throw error;
-        }
-    },
-
-    updateRoom: async (roomId: string, updates: any) => {
-        try {
-            console.log('Firebase: Attempting to update room', roomId, updates);
-            const roomRef = ref(database, `rooms/${roomId}`);
-            await update(roomRef, updates);
-            console.log('Firebase: Room updated successfully', roomId);
-        } catch (error) {
-            console.error('Firebase: Error updating room', roomId, error);
-            throw error;
-        }
-    },
-
-    getRoom: (roomId: string, callback: (room: GameRoom) => void) => {
-        console.log('Firebase: Subscribing to room', roomId);
-        const roomRef = ref(database, `rooms/${roomId}`);
-        const unsubscribe = onValue(roomRef, (snapshot) => {
-            const data = snapshot.val();
-            console.log('Firebase: Received room data', roomId);
-            if (data) {
-                callback(data);
-            }
-        }, (error) => {
-            console.error('Firebase: Error listening to room', roomId, error);
-        });
-        return unsubscribe;
+import { ref, get, set, update, onValue, onDisconnect, remove, runTransaction, query, orderByChild, endAt, limitToFirst } from "firebase/database";
+import { signInAnonymously } from "firebase/auth";
+import { auth, database } from "./firebase-config";
+import { createRoomStore, StoreBackend } from "./room-store";
+
+// Difference between the server clock and ours, kept up to date once someone asks for server time
+let serverTimeOffset = 0;
+let offsetUnsubscribe: (() => void) | null = null;
+
+// Firebase Realtime Database implementation of the store primitives
+export const firebaseBackend: StoreBackend = {
+    name: 'Firebase',
+
+    get: async (path: string) => {
+        const snapshot = await get(ref(database, path));
+        return snapshot.val();
     },
 
-    joinRoom: async (roomId: string, uid: string, name: string) => {
-        console.log('Firebase: Attempting to join room', roomId, 'as', name);
-        const roomRef = ref(database, `rooms/${roomId}`);
+    set: (path: string, value: any) => set(ref(database, path), value),
 
-        return new Promise<void>((resolve, reject) => {
-            onValue(roomRef, async (snapshot) => {
-                const room = snapshot.val() as GameRoom;
-                if (!room) {
-                    console.error('Firebase: Room not found', roomId);
-                    reject(new Error("Room not found"));
-                    return;
-                }
+    update: (path: string, updates: Record<string, any>) => update(ref(database, path), updates),
 
-                const existingPlayer = room.players?.[uid];
-                let updatedPlayers;
+    remove: (path: string) => remove(ref(database, path)),
 
-                if (existingPlayer) {
-                    console.log('Firebase: Rejoining existing player', uid);
-                    // Preserve existing state, just update status and maybe name
-                    updatedPlayers = {
-                        ...room.players,
-                        [uid]: {
-                            ...existingPlayer,
-                            name: name, // User might have updated name, but identity is same
-                            status: 'active'
-                        }
-                    };
-                } else {
-                    console.log('Firebase: Joining as new player', uid);
-                    updatedPlayers = {
-                        ...room.players,
-                        [uid]: {
-                            id: uid,
-                            name,
-                            isHost: false, // Default false, unless logic elsewhere handles it? (Usually host is set on creation)
-                            grid: Array(9).fill(null).map(() => ({ word: '', score: 'NONE' })),
-                            totalScore: 0,
-                            isReady: false,
-                            status: 'active'
-                        }
-                    };
-                }
+    subscribe: (path, callback, onError) =>
+        onValue(ref(database, path), (snapshot) => callback(snapshot.val()), onError),
 
-                try {
-                    await update(roomRef, { players: updatedPlayers });
+    onDisconnectUpdate: (path: string, updates: Record<string, any>) =>
+        onDisconnect(ref(database, path)).update(updates),
 
-                    // Auto-remove player if they disconnect
-                    const playerRef = ref(database, `rooms/${roomId}/players/${uid}`);
-                    onDisconnect(playerRef).update({ status: 'leaved' }).catch(err =>
-                        console.error('Firebase: Failed to set onDisconnect for player', uid, err)
-                    );
+    cancelOnDisconnect: (path: string) => onDisconnect(ref(database, path)).cancel(),
 
-                    console.log('Firebase: Joined/Rejoined room successfully', roomId);
-                    resolve();
-                } catch (error) {
-                    console.error('Firebase: Error updating players during join', roomId, error);
-                    reject(error);
-                }
-            }, { onlyOnce: true });
-        });
+    transaction: async (path: string, apply: (value: any) => any) => {
+        const result = await runTransaction(ref(database, path), apply);
+        return result.committed;
     },
 
-    leaveRoom: async (roomId: string, uid: string, isHost: boolean) => {
-        try {
-            const roomRef = ref(database, `rooms/${roomId}`);
-            const playerRef = ref(database, `rooms/${roomId}/players/${uid}`);
-
-            // Mark the leaving player as leaved instead of removing
-            await update(playerRef, { status: 'leaved' });
-            console.log('Firebase: Player marked as leaved', uid);
+    // Missing values sort first, so endAt also returns nodes without the child
+    queryBefore: async (path: string, child: string, before: number, limit: number) => {
+        const snapshot = await get(query(ref(database, path), orderByChild(child), endAt(before), limitToFirst(limit)));
+        return snapshot.val() || {};
+    },
 
-            // Fetch the latest room data
-            const snapshot = await new Promise<any>((resolve, reject) => {
-                onValue(roomRef, (snap) => resolve(snap), { onlyOnce: true });
+    serverNow: () => {
+        if (!offsetUnsubscribe) {
+            offsetUnsubscribe = onValue(ref(database, '.info/serverTimeOffset'), (snapshot) => {
+                serverTimeOffset = snapshot.val() || 0;
             });
-            const room = snapshot.val();
-            if (!room) {
-                console.warn('Firebase: Room not found after leaving', roomId);
-                return;
-            }
-
-            if (isHost) {
-                // Transfer host to another active player (status not leaved)
-                const remainingActive = Object.entries(room.players || {})
-                    .filter(([id, p]) => id !== uid && (p as any).status !== 'leaved')
-                    .map(([id]) => id);
-
-                if (remainingActive.length > 0) {
-                    const newHostId = remainingActive[Math.floor(Math.random() * remainingActive.length)];
-                    const updates: any = {
-                        hostId: newHostId,
-                        [`players/${newHostId}/isHost`]: true,
-                        [`players/${uid}/isHost`]: false,
-                    };
-                    await update(roomRef, updates);
-                    console.log('Firebase: Host transferred to', newHostId);
-                } else {
-                    // Check if there are ANY players at all (even disconnected ones) before deleting?
-                    // Actually, if no *active* players and host leaves, maybe we DO want to keep the room alive 
-                    // for a bit in case they rejoin? 
-                    // BUT for now, let's stick to: "If everyone is gone/leaved, delete."
-
-                    const allLeaved = Object.values(room.players || {}).every(
-                        (p: any) => p.id === uid || p.status === 'leaved'
-                    );
-
-                    if (allLeaved) {
-                        // No active players left, delete the room
-                        await remove(roomRef);
-                        console.log('Firebase: Room deleted (no active players)', roomId);
-                    } else {
-                        // There are players but they are all "leaved" status (disconnected).
-                        // Just give host to one of them randomly so the room has a host?
-                        // Or just leave hostId pointing to the leaving user? 
-                        // Let's pick a random leaved player to be host so at least someone is host if they rejoin.
-                        const remainingLeaved = Object.keys(room.players || {}).filter(id => id !== uid);
-                        if (remainingLeaved.length > 0) {
-                            const newHostId = remainingLeaved[Math.floor(Math.random() * remainingLeaved.length)];
-                            const updates: any = {
-                                hostId: newHostId,
-                                [`players/${newHostId}/isHost`]: true,
-                                [`players/${uid}/isHost`]: false,
-                            };
-                            await update(roomRef, updates);
-                            console.log('Firebase: Host transferred to disconnected player', newHostId);
-                        }
-                    }
-                }
-            } else {
-                // For regular player, check if all players are leaved
-                const allLeaved = Object.values(room.players || {}).every(
-                    (p: any) => p.status === 'leaved'
-                );
-                if (allLeaved) {
-                    await remove(roomRef);
-                    console.log('Firebase: Room deleted (all players leaved)', roomId);
-                }
-            }
-        } catch (error) {
-            console.error('Firebase: Error leaving room', error);
-            throw error;
         }
+        return Date.now() + serverTimeOffset;
+    },
+
+    signIn: async () => {
+        // Reuse the anonymous account persisted from an earlier visit, if any
+        await auth.authStateReady();
+        if (auth.currentUser) return auth.currentUser.uid;
+        const credential = await signInAnonymously(auth);
+        return credential.user.uid;
     },
 };
+
+export const dbService = createRoomStore(firebaseBackend);
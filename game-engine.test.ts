@@ -0,0 +1,283 @@
+import { describe, expect, it } from 'vitest';
+import { GamePhase, GameRoom, GridCell, ScoreType } from './types';
+import { applyAction, canTransition, createPlayer, defaultScoringRules, gameReducer, hostChangeUpdates, pendingSettlement, scoreBreakdown, GameAction } from './game-engine';
+
+const grid = (...cells: [string, ScoreType][]): GridCell[] =>
+  Array.from({ length: 9 }, (_, i) => ({ word: cells[i]?.[0] || '', score: cells[i]?.[1] || 'NONE' }));
+
+// A size x size board with the given cells marked
+const marked = (size: number, marks: Record<number, ScoreType>): GridCell[] =>
+  Array.from({ length: size * size }, (_, i) => ({ word: '', score: marks[i] || 'NONE' }));
+
+// Host h with players a and b, 3x3 board
+const makeRoom = (phase: GamePhase, extra: Partial<GameRoom> = {}): GameRoom => ({
+  id: '1234',
+  hostId: 'h',
+  topics: ['Fruits', 'Colors', 'Pets'],
+  phase,
+  players: {
+    h: { ...createPlayer('h', 'H'), isHost: true },
+    a: createPlayer('a', 'A'),
+    b: createPlayer('b', 'B')
+  },
+  createdAt: 0,
+  ...extra
+});
+
+const run = (room: GameRoom, ...steps: [string, GameAction][]) =>
+  steps.reduce((r, [actor, action]) => gameReducer(r, actor, action), room);
+
+describe('phase order', () => {
+  it('walks LOBBY -> SELECT_TOPICS -> WRITING -> SCORING -> VALIDATION -> FINISHED', () => {
+    const room = run(
+      makeRoom(GamePhase.LOBBY),
+      ['h', { type: 'START_GAME' }],
+      ['h', { type: 'SET_TOPICS', topics: ['Fruits', 'Colors', 'Pets'] }],
+      ['h', { type: 'CONFIRM_TOPICS', now: 0 }],
+      ['h', { type: 'LOCK_BOARDS' }],
+      ['h', { type: 'REVEAL_BOARDS' }],
+      ['h', { type: 'FINALIZE_SCORES' }]
+    );
+    expect(room.phase).toBe(GamePhase.FINISHED);
+  });
+
+  it.each([
+    [GamePhase.LOBBY, { type: 'LOCK_BOARDS' }],
+    [GamePhase.LOBBY, { type: 'REVEAL_BOARDS' }],
+    [GamePhase.WRITING, { type: 'REVEAL_BOARDS' }],
+    [GamePhase.WRITING, { type: 'START_GAME' }],
+    [GamePhase.SCORING, { type: 'FINALIZE_SCORES' }],
+    [GamePhase.VALIDATION, { type: 'LOCK_BOARDS' }],
+  ] as [GamePhase, GameAction][])('refuses %s -> %j', (phase, action) => {
+    expect(() => applyAction(makeRoom(phase), 'h', action)).toThrow();
+  });
+
+  it('only goes back to topics or the lobby after a round', () => {
+    expect(canTransition(GamePhase.FINISHED, GamePhase.SELECT_TOPICS)).toBe(true);
+    expect(canTransition(GamePhase.FINISHED, GamePhase.LOBBY)).toBe(true);
+    expect(canTransition(GamePhase.FINISHED, GamePhase.WRITING)).toBe(false);
+    expect(canTransition(GamePhase.SCORING, GamePhase.WRITING)).toBe(false);
+  });
+
+  it('locks the boards on TIME_UP only after the deadline', () => {
+    const room = makeRoom(GamePhase.WRITING, { writingDeadline: 1000 });
+    expect(() => applyAction(room, 'a', { type: 'TIME_UP', now: 999 })).toThrow('Time is not up yet');
+    expect(gameReducer(room, 'a', { type: 'TIME_UP', now: 1000 }).phase).toBe(GamePhase.SCORING);
+  });
+});
+
+describe('who may act', () => {
+  it('rejects anyone who is not in the room', () => {
+    expect(() => applyAction(makeRoom(GamePhase.LOBBY), 'stranger', { type: 'START_GAME' })).toThrow('You are not in this room');
+  });
+
+  it.each([
+    { type: 'START_GAME' },
+    { type: 'SET_BOARD_SIZE', size: 4 },
+    { type: 'SET_MATCH_LENGTH', rounds: 3 },
+    { type: 'SET_ROOM_LOCKED', locked: true },
+    { type: 'KICK_PLAYER', playerId: 'b' },
+    { type: 'TRANSFER_HOST', playerId: 'a' },
+  ] as GameAction[])('keeps %j from a plain player', (action) => {
+    expect(() => applyAction(makeRoom(GamePhase.LOBBY), 'a', action)).toThrow(/Only the host/);
+  });
+
+  it('lets a co-host move the game along but not change settings', () => {
+    const room = makeRoom(GamePhase.LOBBY, { coHosts: { a: true } });
+    expect(gameReducer(room, 'a', { type: 'START_GAME' }).phase).toBe(GamePhase.SELECT_TOPICS);
+    expect(() => applyAction(room, 'a', { type: 'SET_BOARD_SIZE', size: 4 })).toThrow('Only the host can do that');
+    expect(() => applyAction(room, 'a', { type: 'KICK_PLAYER', playerId: 'b' })).toThrow('Only the host can do that');
+    expect(() => applyAction({ ...room, phase: GamePhase.VALIDATION }, 'a', { type: 'FINALIZE_SCORES' })).toThrow('Only the host can do that');
+    expect(() => applyAction({ ...room, phase: GamePhase.FINISHED }, 'a', { type: 'NEW_MATCH' })).toThrow('Only the host can do that');
+  });
+
+  it('only clears a co-host flag the new host actually has', () => {
+    expect(hostChangeUpdates(makeRoom(GamePhase.LOBBY), 'a')).not.toHaveProperty('coHosts/a');
+    expect(hostChangeUpdates(makeRoom(GamePhase.LOBBY, { coHosts: { a: true } }), 'a')).toHaveProperty(['coHosts/a'], null);
+  });
+
+  it('keeps hostId and isHost in step on a transfer', () => {
+    const room = gameReducer(makeRoom(GamePhase.LOBBY), 'h', { type: 'TRANSFER_HOST', playerId: 'a' });
+    expect(room.hostId).toBe('a');
+    expect(room.players.a.isHost).toBe(true);
+    expect(room.players.h.isHost).toBe(false);
+  });
+});
+
+describe('scoring', () => {
+  const validation = () => makeRoom(GamePhase.VALIDATION, {
+    players: {
+      h: { ...createPlayer('h', 'H'), isHost: true, grid: grid(['apple', 'O'], ['red', 'STAR']) },
+      a: { ...createPlayer('a', 'A'), grid: grid(['apple', 'O'], ['red', 'STAR']), totalScore: 5 },
+      b: { ...createPlayer('b', 'B'), grid: grid(['pear', 'STAR']) }
+    }
+  });
+
+  it('adds a round to the totals once, however often FINALIZE_SCORES is sent', () => {
+    const room = validation();
+    const once = gameReducer(room, 'h', { type: 'FINALIZE_SCORES' });
+    expect(once.players.a.totalScore).toBe(8);
+    expect(once.players.b.totalScore).toBe(2);
+    expect(once.scoredRound).toBe(1);
+    expect(() => applyAction(once, 'h', { type: 'FINALIZE_SCORES' })).toThrow('already final');
+  });
+
+  it('does not finalize while a challenge is open', () => {
+    const room = gameReducer(validation(), 'a', { type: 'OPEN_CHALLENGE', challengeId: 'c1', playerId: 'b', cell: 0, score: 'X' });
+    expect(() => applyAction(room, 'h', { type: 'FINALIZE_SCORES' })).toThrow('Settle all challenges');
+  });
+
+  it('only records challenge votes until the host settles them', () => {
+    const voted = run(
+      validation(),
+      ['a', { type: 'OPEN_CHALLENGE', challengeId: 'c1', playerId: 'b', cell: 0, score: 'X' }],
+      ['h', { type: 'VOTE_CHALLENGE', challengeId: 'c1', score: 'X' }]
+    );
+    expect(voted.challenges?.c1.votes).toEqual({ a: 'X', h: 'X' });
+    expect(voted.players.b.grid[0].score).toBe('STAR');
+    expect(pendingSettlement(voted)).toEqual({ type: 'SETTLE_CHALLENGE', challengeId: 'c1' });
+  });
+
+  it('will not settle a challenge the room is still voting on', () => {
+    const room = gameReducer(validation(), 'a', { type: 'OPEN_CHALLENGE', challengeId: 'c1', playerId: 'b', cell: 0, score: 'X' });
+    expect(pendingSettlement(room)).toBeNull();
+    expect(() => applyAction(room, 'h', { type: 'SETTLE_CHALLENGE', challengeId: 'c1' })).toThrow('still voting');
+  });
+
+  it('lets the host close a stalled challenge with the mark standing', () => {
+    const room = run(
+      validation(),
+      ['a', { type: 'OPEN_CHALLENGE', challengeId: 'c1', playerId: 'b', cell: 0, score: 'X' }],
+      ['h', { type: 'CLOSE_CHALLENGE', challengeId: 'c1' }]
+    );
+    expect(room.challenges?.c1).toBeUndefined();
+    expect(room.players.b.grid[0].score).toBe('STAR');
+    expect(gameReducer(room, 'h', { type: 'FINALIZE_SCORES' }).phase).toBe(GamePhase.FINISHED);
+  });
+
+  it('keeps a settled challenge outcome final', () => {
+    const room = run(
+      validation(),
+      ['a', { type: 'OPEN_CHALLENGE', challengeId: 'c1', playerId: 'b', cell: 0, score: 'X' }],
+      ['h', { type: 'VOTE_CHALLENGE', challengeId: 'c1', score: 'X' }],
+      ['h', { type: 'SETTLE_CHALLENGE', challengeId: 'c1' }]
+    );
+    expect(room.challenges?.c1).toBeUndefined();
+    expect(room.players.b.grid[0].score).toBe('X');
+    expect(() => applyAction(room, 'h', { type: 'OPEN_CHALLENGE', challengeId: 'c2', playerId: 'b', cell: 0, score: 'STAR' })).toThrow('already voted');
+  });
+
+  it('only merges groups that are on the board', () => {
+    expect(() => applyAction(validation(), 'a', { type: 'MERGE_GROUPS', proposalId: 'm1', topic: 3, keys: ['apple', 'pear'], words: [] })).toThrow('No such topic');
+    expect(() => applyAction(validation(), 'a', { type: 'MERGE_GROUPS', proposalId: 'm1', topic: 0, keys: ['apple', 'plum'], words: [] })).toThrow('no longer on the board');
+  });
+
+  it('applies a proposed merge only once most of the room agrees', () => {
+    const proposed = gameReducer(validation(), 'a', { type: 'MERGE_GROUPS', proposalId: 'm1', topic: 0, keys: ['apple', 'pear'], words: ['apple', 'pear'] });
+    expect(proposed.merges).toBeUndefined();
+    expect(pendingSettlement(proposed)).toBeNull();
+    expect(() => applyAction(proposed, 'h', { type: 'APPLY_MERGE', proposalId: 'm1' })).toThrow('not agreed');
+
+    const agreed = gameReducer(proposed, 'b', { type: 'VOTE_MERGE', proposalId: 'm1' });
+    expect(agreed.merges).toBeUndefined();
+    expect(pendingSettlement(agreed)).toEqual({ type: 'APPLY_MERGE', proposalId: 'm1' });
+    expect(() => applyAction(agreed, 'a', { type: 'APPLY_MERGE', proposalId: 'm1' })).toThrow(/Only the host/);
+
+    const merged = gameReducer(agreed, 'h', { type: 'APPLY_MERGE', proposalId: 'm1' });
+    expect(merged.merges).toEqual([{ topic: 0, keys: ['apple', 'pear'], by: 'vote' }]);
+    expect(merged.mergeProposals?.m1).toBeUndefined();
+  });
+
+  it('lets players cycle their own marks only before the boards are revealed', () => {
+    const room = gameReducer({ ...validation(), phase: GamePhase.SCORING }, 'b', { type: 'CYCLE_SCORE', cell: 1 });
+    expect(room.players.b.grid[1].score).toBe('O');
+    expect(() => applyAction(validation(), 'b', { type: 'CYCLE_SCORE', cell: 1 })).toThrow('Not allowed during VALIDATION');
+  });
+});
+
+describe('score breakdown', () => {
+  const rules3 = defaultScoringRules(3);
+
+  it.each([
+    ['the top row', { 0: 'O', 1: 'O', 2: 'STAR' }, { cells: 4, rows: 3, columns: 0, diagonals: 0, fullBoard: 0, total: 7 }],
+    ['the bottom row', { 6: 'O', 7: 'O', 8: 'O' }, { cells: 3, rows: 1, columns: 0, diagonals: 0, fullBoard: 0, total: 4 }],
+    ['the right column', { 2: 'O', 5: 'STAR', 8: 'O' }, { cells: 4, rows: 0, columns: 3, diagonals: 0, fullBoard: 0, total: 7 }],
+    ['a broken line', { 0: 'O', 1: 'X', 2: 'O' }, { cells: 2, rows: 0, columns: 0, diagonals: 0, fullBoard: 0, total: 2 }],
+  ] as [string, Record<number, ScoreType>, object][])('scores %s', (_, marks, expected) => {
+    expect(scoreBreakdown(marked(3, marks), rules3)).toEqual(expected);
+  });
+
+  it('adds the diagonal bonuses', () => {
+    const rules = { ...rules3, diagonalBonuses: [2, 5] };
+    expect(scoreBreakdown(marked(3, { 0: 'O', 4: 'O', 8: 'O' }), rules).diagonals).toBe(2);
+    expect(scoreBreakdown(marked(3, { 2: 'O', 4: 'O', 6: 'O' }), rules).diagonals).toBe(5);
+    expect(scoreBreakdown(marked(3, { 0: 'O', 2: 'O', 4: 'O', 6: 'O', 8: 'O' }), rules).total).toBe(12);
+  });
+
+  it('adds every line and the full board bonus on a full board', () => {
+    const full = marked(3, Object.fromEntries(Array.from({ length: 9 }, (_, i) => [i, 'O'])));
+    expect(scoreBreakdown(full, { ...rules3, diagonalBonuses: [1, 1], fullBoardBonus: 10 }))
+      .toEqual({ cells: 9, rows: 6, columns: 6, diagonals: 2, fullBoard: 10, total: 33 });
+  });
+
+  it('takes X penalties off the cell points', () => {
+    const rules = { ...rules3, cellPoints: { O: 1, STAR: 2, X: -1 } };
+    expect(scoreBreakdown(marked(3, { 0: 'X', 1: 'X', 2: 'STAR' }), rules).total).toBe(0);
+  });
+
+  it('scores other board sizes with their own bonuses', () => {
+    const allStars = marked(2, { 0: 'STAR', 1: 'STAR', 2: 'STAR', 3: 'STAR' });
+    expect(scoreBreakdown(allStars, defaultScoringRules(2))).toEqual({ cells: 8, rows: 3, columns: 3, diagonals: 0, fullBoard: 0, total: 14 });
+    expect(scoreBreakdown(marked(4, { 12: 'O', 13: 'O', 14: 'O', 15: 'O' }), defaultScoringRules(4)).total).toBe(5);
+    expect(scoreBreakdown(marked(5, { 4: 'O', 9: 'O', 14: 'O', 19: 'O', 24: 'O' }), defaultScoringRules(5)).total).toBe(10);
+  });
+});
+
+describe('topic modes', () => {
+  const topics: GameAction = { type: 'SET_TOPICS', topics: ['Cars', 'Birds', 'Towns'] };
+
+  it('hands the pick to the next active player each round in rotate mode', () => {
+    const started = gameReducer(makeRoom(GamePhase.LOBBY, { topicMode: 'rotate' }), 'h', { type: 'START_GAME' });
+    expect(started.topicPicker).toBe('a');
+    expect(() => applyAction(started, 'h', topics)).toThrow('not your turn');
+    expect(gameReducer(started, 'a', topics).topics).toEqual(['Cars', 'Birds', 'Towns']);
+
+    const finished = (topicPicker: string, extra: Partial<GameRoom> = {}) =>
+      makeRoom(GamePhase.FINISHED, { topicMode: 'rotate', topicPicker, ...extra });
+    expect(gameReducer(finished('a'), 'h', { type: 'RESTART_ROUND' }).topicPicker).toBe('b');
+    expect(gameReducer(finished('h'), 'h', { type: 'RESTART_ROUND' }).topicPicker).toBe('a');
+    const bLeft = { players: { ...makeRoom(GamePhase.FINISHED).players, b: { ...createPlayer('b', 'B'), status: 'leaved' as const } } };
+    expect(gameReducer(finished('a', bLeft), 'h', { type: 'RESTART_ROUND' }).topicPicker).toBe('h');
+  });
+
+  it('lets the host pick when the rotating picker has left', () => {
+    const room = makeRoom(GamePhase.SELECT_TOPICS, { topicMode: 'rotate', topicPicker: 'a' });
+    expect(() => applyAction(room, 'h', topics)).toThrow('not your turn');
+    room.players.a.status = 'leaved';
+    expect(gameReducer(room, 'h', topics).topics).toEqual(['Cars', 'Birds', 'Towns']);
+    expect(() => applyAction(room, 'b', topics)).toThrow('not your turn');
+  });
+
+  it('plays the most voted suggestions in vote mode', () => {
+    const room = run(
+      makeRoom(GamePhase.SELECT_TOPICS, { topicMode: 'vote' }),
+      ['a', { type: 'SUBMIT_TOPIC', candidateId: 'c1', topic: 'Cars' }],
+      ['b', { type: 'SUBMIT_TOPIC', candidateId: 'c2', topic: 'Birds' }],
+      ['h', { type: 'SUBMIT_TOPIC', candidateId: 'c3', topic: 'Towns' }],
+      ['h', { type: 'SUBMIT_TOPIC', candidateId: 'c4', topic: 'Songs' }],
+      ['b', { type: 'VOTE_TOPIC', candidateId: 'c1' }],
+      ['h', { type: 'VOTE_TOPIC', candidateId: 'c1' }],
+      ['a', { type: 'VOTE_TOPIC', candidateId: 'c4' }],
+      ['a', { type: 'VOTE_TOPIC', candidateId: 'c2' }],
+      ['a', { type: 'VOTE_TOPIC', candidateId: 'c4' }] // changed their mind
+    );
+    expect(() => applyAction(room, 'a', topics)).toThrow('Only the host');
+    expect(() => applyAction(room, 'a', { type: 'CONFIRM_TOPICS', now: 0 })).toThrow('close the topic vote');
+
+    const writing = gameReducer(room, 'h', { type: 'CONFIRM_TOPICS', now: 0 });
+    expect(writing.phase).toBe(GamePhase.WRITING);
+    // Towns and Songs tie on one vote each; the earlier suggestion goes first
+    expect(writing.topics).toEqual(['Cars', 'Birds', 'Towns']);
+    expect(writing.topicCandidates).toBeUndefined();
+  });
+});
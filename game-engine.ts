@@ -0,0 +1,827 @@
+import { GamePhase, GameRoom, GridCell, Player, ScoreType, ScoringRules, ScoreBreakdown, RoundRecord, AnswerMerge, MergeProposal, Challenge, TopicMode, TopicCandidate, Spectator } from './types';
+import { RoomUpdates } from './room-store';
+import { answerKey, cleanAnswer } from './normalize';
+import { groupAnswers, proposeScores } from './matching';
+
+/**
+ * Framework-free game rules. applyAction() validates an action against the room
+ * (phase order, who may do it) and returns the path-style patch to write with db.updateRoom.
+ * gameReducer() applies that patch to give the next GameRoom.
+ * Illegal actions throw an Error with a message that can be shown to the player.
+ */
+
+export type GameAction =
+  | { type: 'SET_BOARD_SIZE'; size: number }
+  | { type: 'SET_SCORING_RULES'; rules: ScoringRules }
+  | { type: 'SET_WRITING_TIME_LIMIT'; seconds: number }
+  | { type: 'SET_MATCH_LENGTH'; rounds: number }
+  | { type: 'SET_TOPIC_MODE'; mode: TopicMode }
+  | { type: 'START_GAME' }
+  | { type: 'SET_TOPIC'; index: number; topic: string }
+  | { type: 'SET_TOPICS'; topics: string[] } // all at once, e.g. drawn from a topic deck
+  | { type: 'SUBMIT_TOPIC'; candidateId: string; topic: string }
+  | { type: 'WITHDRAW_TOPIC'; candidateId: string }
+  | { type: 'VOTE_TOPIC'; candidateId: string } // toggles the actor's vote
+  | { type: 'CONFIRM_TOPICS'; now: number } // now: server time, starts the writing clock
+  | { type: 'SET_ANSWERED_COUNT'; count: number } // progress only, the answers stay private
+  | { type: 'SET_READY'; ready: boolean } // done writing (WRITING) or done marking (SCORING)
+  | { type: 'SET_AUTO_ADVANCE'; enabled: boolean }
+  | { type: 'LOCK_BOARDS' }
+  | { type: 'TIME_UP'; now: number } // any player may lock the boards once the deadline has passed
+  | { type: 'PUBLISH_ANSWERS'; words: string[] } // copy the actor's private answers into their grid
+  | { type: 'PROPOSE_SCORES' }
+  | { type: 'CYCLE_SCORE'; cell: number }
+  | { type: 'REVEAL_BOARDS' }
+  | { type: 'MERGE_GROUPS'; proposalId: string; topic: number; keys: string[]; words: string[] }
+  | { type: 'VOTE_MERGE'; proposalId: string }
+  | { type: 'APPLY_MERGE'; proposalId: string } // host: carry out a merge the room agreed to
+  | { type: 'OPEN_CHALLENGE'; challengeId: string; playerId: string; cell: number; score: ScoreType }
+  | { type: 'VOTE_CHALLENGE'; challengeId: string; score: ScoreType }
+  | { type: 'SETTLE_CHALLENGE'; challengeId: string } // host: apply the mark the room voted for
+  | { type: 'CLOSE_CHALLENGE'; challengeId: string } // host: end the vote and keep the current mark
+  | { type: 'FINALIZE_SCORES' }
+  | { type: 'SEAT_SPECTATOR'; spectatorId: string }
+  | { type: 'KICK_PLAYER'; playerId: string } // players and spectators alike
+  | { type: 'BAN_PLAYER'; playerId: string } // kick, and keep them out for good
+  | { type: 'UNBAN_PLAYER'; playerId: string }
+  | { type: 'SET_ROOM_LOCKED'; locked: boolean }
+  | { type: 'SET_MAX_PLAYERS'; count: number }
+  | { type: 'TRANSFER_HOST'; playerId: string }
+  | { type: 'SET_CO_HOST'; playerId: string; coHost: boolean }
+  | { type: 'RESTART_ROUND' }
+  | { type: 'NEW_MATCH' };
+
+// Legal phase moves; a new round goes back to topic selection, a new match back to the lobby
+const NEXT_PHASES: Record<GamePhase, GamePhase[]> = {
+  [GamePhase.LOBBY]: [GamePhase.SELECT_TOPICS],
+  [GamePhase.SELECT_TOPICS]: [GamePhase.WRITING],
+  [GamePhase.WRITING]: [GamePhase.SCORING],
+  [GamePhase.SCORING]: [GamePhase.VALIDATION],
+  [GamePhase.VALIDATION]: [GamePhase.FINISHED],
+  [GamePhase.FINISHED]: [GamePhase.SELECT_TOPICS, GamePhase.LOBBY],
+};
+
+const HOST_ACTIONS: GameAction['type'][] = [
+  'SET_BOARD_SIZE', 'SET_SCORING_RULES', 'SET_WRITING_TIME_LIMIT', 'SET_TOPIC_MODE', 'PROPOSE_SCORES', 'SET_MATCH_LENGTH', 'SET_AUTO_ADVANCE', 'SEAT_SPECTATOR',
+  'KICK_PLAYER', 'BAN_PLAYER', 'UNBAN_PLAYER', 'SET_ROOM_LOCKED', 'SET_MAX_PLAYERS', 'TRANSFER_HOST', 'SET_CO_HOST',
+  'FINALIZE_SCORES', 'NEW_MATCH', 'APPLY_MERGE',
+  'SETTLE_CHALLENGE', 'CLOSE_CHALLENGE'
+];
+
+// Moving the game along is shared with co-hosts; settings, moderation and the score totals stay with the host
+const CO_HOST_ACTIONS: GameAction['type'][] = [
+  'START_GAME', 'LOCK_BOARDS', 'REVEAL_BOARDS', 'RESTART_ROUND'
+];
+
+export const WRITING_TIME_LIMITS = [0, 60, 90, 120, 180, 300];
+
+// m:ss, for time limits and the writing countdown
+export const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+// 0 = endless
+export const MATCH_LENGTHS = [0, 1, 3, 5, 10];
+
+const SCORE_CYCLE: ScoreType[] = ['NONE', 'O', 'X', 'STAR'];
+
+export const BOARD_SIZES = [2, 3, 4, 5];
+
+// 0 = no cap
+export const PLAYER_CAPS = [0, 4, 6, 8, 12];
+
+export const TOPIC_MODES: TopicMode[] = ['host', 'rotate', 'vote'];
+
+// N for an N x N board; rooms created before board sizes existed are 3 x 3
+export const getBoardSize = (room: GameRoom): number => room.boardSize || 3;
+
+// A grid is always square, so its size follows from the cell count
+const gridSize = (grid: GridCell[]) => Math.round(Math.sqrt(grid.length));
+
+export const createEmptyGrid = (size = 3): GridCell[] =>
+  Array(size * size).fill(null).map(() => ({ word: '', score: 'NONE' }));
+
+export const createEmptyTopics = (size = 3): string[] => Array(size).fill('');
+
+export const canTransition = (from: GamePhase, to: GamePhase) => NEXT_PHASES[from].includes(to);
+
+export const getActivePlayers = (room: GameRoom): Player[] =>
+  (Object.values(room.players || {}) as Player[]).filter(p => p.status !== 'leaved');
+
+// New arrivals get a board only before anyone has started writing; later they watch until the next round
+export const canJoinAsPlayer = (room: GameRoom) =>
+  room.phase === GamePhase.LOBBY || room.phase === GamePhase.SELECT_TOPICS;
+
+// The player cap is reached; people already in the room may still come back
+export const isRoomFull = (room: GameRoom) => !!room.maxPlayers && getActivePlayers(room).length >= room.maxPlayers;
+
+export const getSpectators = (room: GameRoom): Spectator[] =>
+  (Object.values(room.spectators || {}) as Spectator[]).filter(s => s.status !== 'leaved');
+
+export const createPlayer = (id: string, name: string, size = 3, status: Player['status'] = 'active'): Player => ({
+  id,
+  name,
+  isHost: false,
+  grid: createEmptyGrid(size),
+  totalScore: 0,
+  isReady: false,
+  status
+});
+
+export const findChallenge = (room: GameRoom, playerId: string, cell: number): Challenge | undefined =>
+  (Object.values(room.challenges || {}) as Challenge[]).find(c => c.playerId === playerId && c.cell === cell);
+
+export const hasOpenChallenges = (room: GameRoom) => Object.keys(room.challenges || {}).length > 0;
+
+const settledKey = (playerId: string, cell: number) => `${playerId}_${cell}`;
+
+// A challenge vote decided this cell; neither its owner nor a later merge may change the mark
+export const isSettled = (room: GameRoom, playerId: string, cell: number) => !!room.settledCells?.[settledKey(playerId, cell)];
+
+export const isCoHost = (room: GameRoom, playerId: string) => !!room.coHosts?.[playerId] && room.hostId !== playerId;
+
+// The host, or a co-host who is still here
+export const canRunGame = (room: GameRoom, playerId: string) =>
+  room.hostId === playerId || (isCoHost(room, playerId) && room.players?.[playerId]?.status !== 'leaved');
+
+// Who takes over from the host: a co-host if one is still here, otherwise a random active player
+export const pickNextHost = (room: GameRoom, random: () => number = Math.random): string | null => {
+  const candidates = getActivePlayers(room).filter(p => p.id !== room.hostId);
+  if (candidates.length === 0) return null;
+  const coHost = candidates.filter(p => room.coHosts?.[p.id]).map(p => p.id).sort()[0];
+  return coHost || candidates[Math.floor(random() * candidates.length)].id;
+};
+
+// hostId and every isHost flag change together; the new host is no longer also a co-host
+export const hostChangeUpdates = (room: GameRoom, newHostId: string): RoomUpdates => {
+  const updates: RoomUpdates = {
+    hostId: newHostId,
+    [`players/${newHostId}/isHost`]: true
+  };
+  // Only drop a flag that is there: a plain player handing on the host role may clear nothing else in coHosts
+  if (room.coHosts?.[newHostId]) updates[`coHosts/${newHostId}`] = null;
+  if (room.players?.[room.hostId] && room.hostId !== newHostId) updates[`players/${room.hostId}/isHost`] = false;
+  return updates;
+};
+
+export const getTopicMode = (room: GameRoom): TopicMode => room.topicMode || 'host';
+
+// Who may write room.topics directly. In rotate mode the host (or a co-host) steps in only if the picker has left.
+export const canPickTopics = (room: GameRoom, playerId: string): boolean => {
+  switch (getTopicMode(room)) {
+    case 'rotate': {
+      const picker = room.topicPicker ? room.players?.[room.topicPicker] : undefined;
+      if (picker && picker.status !== 'leaved') return picker.id === playerId;
+      return canRunGame(room, playerId);
+    }
+    case 'vote':
+      return false;
+    default:
+      return canRunGame(room, playerId);
+  }
+};
+
+// The active player after the current picker, in a fixed (id) order
+const nextTopicPicker = (room: GameRoom): string | null => {
+  const ids = getActivePlayers(room).map(p => p.id).sort();
+  if (ids.length === 0) return null;
+  const current = room.topicPicker || '';
+  return ids.find(id => id > current) || ids[0];
+};
+
+// Candidates with the most votes first, earliest submission breaking ties
+export const rankTopicCandidates = (room: GameRoom): TopicCandidate[] =>
+  (Object.values(room.topicCandidates || {}) as TopicCandidate[]).sort((a, b) =>
+    Object.keys(b.votes || {}).length - Object.keys(a.votes || {}).length || a.id.localeCompare(b.id)
+  );
+
+// Ready checks only mean something while WRITING and SCORING
+export const countReady = (room: GameRoom) => getActivePlayers(room).filter(p => p.isReady).length;
+
+export const allPlayersReady = (room: GameRoom) => {
+  const active = getActivePlayers(room);
+  return active.length > 0 && active.every(p => p.isReady);
+};
+
+// Every active player has copied their answers into the room, so they can be compared
+export const allAnswersPublished = (room: GameRoom) => getActivePlayers(room).every(p => p.answersPublished);
+
+/**
+ * Check an answer typed during WRITING and return it cleaned up. Answers are kept in the
+ * player's private answer sheet (see RoomStore.saveAnswers), not in the room, until the boards lock.
+ */
+export const checkAnswer = (room: GameRoom, actorId: string, cell: number, word: string): string => {
+  if (!room.players?.[actorId]) throw new Error('You are not in this room');
+  assertPhase(room, GamePhase.WRITING);
+  assertCell(room, cell);
+  return cleanAnswer(word);
+};
+
+// Archived rounds, oldest first
+export const getRoundHistory = (room: GameRoom): RoundRecord[] =>
+  (Object.values(room.history || {}) as RoundRecord[]).sort((a, b) => a.round - b.round);
+
+// Topics of every finalized round in this match; they may not be played again
+export const getUsedTopics = (room: GameRoom): string[] =>
+  getRoundHistory(room).flatMap(r => r.topics || []).filter(Boolean);
+
+// The last round of a fixed-length match has been scored
+export const isMatchOver = (room: GameRoom) =>
+  !!room.matchLength && room.phase === GamePhase.FINISHED && (room.scoredRound || 0) >= room.matchLength;
+
+// Highest totalScore once the match is over; more than one on a tie
+export const getMatchWinners = (room: GameRoom): Player[] => {
+  if (!isMatchOver(room)) return [];
+  const players = Object.values(room.players || {}) as Player[];
+  const best = Math.max(...players.map(p => p.totalScore || 0));
+  return players.filter(p => (p.totalScore || 0) === best);
+};
+
+// The classic JinxO card, stretched to N x N: O=1, STAR=2, rows +N..+1 top to bottom, columns +1..+N left to right
+export const defaultScoringRules = (size = 3): ScoringRules => ({
+  cellPoints: { O: 1, STAR: 2, X: 0 },
+  rowBonuses: Array.from({ length: size }, (_, r) => size - r),
+  colBonuses: Array.from({ length: size }, (_, c) => c + 1),
+  diagonalBonuses: [0, 0],
+  fullBoardBonus: 0,
+});
+
+export const DEFAULT_SCORING_RULES: ScoringRules = defaultScoringRules(3);
+
+// Room rules with defaults for anything missing (rooms created before rules existed)
+export const getScoringRules = (room: GameRoom): ScoringRules => {
+  const size = getBoardSize(room);
+  const defaults = defaultScoringRules(size);
+  const rules = room.scoringRules;
+  const perLine = (bonuses: number[] | undefined, fallback: number[]) =>
+    bonuses?.length === size ? bonuses : fallback;
+
+  return {
+    cellPoints: { ...defaults.cellPoints, ...(rules?.cellPoints || {}) },
+    rowBonuses: perLine(rules?.rowBonuses, defaults.rowBonuses),
+    colBonuses: perLine(rules?.colBonuses, defaults.colBonuses),
+    diagonalBonuses: rules?.diagonalBonuses || defaults.diagonalBonuses,
+    fullBoardBonus: rules?.fullBoardBonus ?? defaults.fullBoardBonus,
+  };
+};
+
+const validateScoringRules = (rules: ScoringRules, size: number) => {
+  const numbers = [
+    rules.cellPoints?.O, rules.cellPoints?.STAR, rules.cellPoints?.X, rules.fullBoardBonus,
+    ...(rules.rowBonuses || []), ...(rules.colBonuses || []), ...(rules.diagonalBonuses || [])
+  ];
+  if (numbers.some(n => typeof n !== 'number' || !Number.isFinite(n))) throw new Error('Scoring rules must be numbers');
+  if (rules.rowBonuses?.length !== size || rules.colBonuses?.length !== size) throw new Error('Need one bonus per row and column');
+  if (rules.diagonalBonuses?.length !== 2) throw new Error('Need one bonus per diagonal');
+  if (rules.cellPoints.X > 0) throw new Error('X can only be a penalty');
+};
+
+/**
+ * Round score for one grid: cell points plus bingo bonuses for every
+ * complete row, column and diagonal (all O or STAR), plus the full board bonus.
+ */
+export const scoreBreakdown = (grid: GridCell[] = [], rules: ScoringRules = DEFAULT_SCORING_RULES): ScoreBreakdown => {
+  const isMarked = (idx: number) => grid[idx]?.score === 'O' || grid[idx]?.score === 'STAR';
+  const isLine = (cells: number[]) => cells.length > 0 && cells.every(isMarked);
+  const size = gridSize(grid);
+  const line = (at: (k: number) => number) => Array.from({ length: size }, (_, k) => at(k));
+  const score: ScoreBreakdown = { cells: 0, rows: 0, columns: 0, diagonals: 0, fullBoard: 0, total: 0 };
+
+  grid.forEach(cell => {
+    if (cell.score === 'O') score.cells += rules.cellPoints.O;
+    if (cell.score === 'STAR') score.cells += rules.cellPoints.STAR;
+    if (cell.score === 'X') score.cells += rules.cellPoints.X;
+  });
+
+  for (let r = 0; r < size; r++) {
+    if (isLine(line(k => r * size + k))) score.rows += rules.rowBonuses[r] || 0;
+  }
+
+  for (let c = 0; c < size; c++) {
+    if (isLine(line(k => c + k * size))) score.columns += rules.colBonuses[c] || 0;
+  }
+
+  if (isLine(line(k => k * size + k))) score.diagonals += rules.diagonalBonuses[0] || 0;
+  if (isLine(line(k => k * size + (size - 1 - k)))) score.diagonals += rules.diagonalBonuses[1] || 0;
+  if (isLine(grid.map((_, idx) => idx))) score.fullBoard += rules.fullBoardBonus;
+
+  score.total = score.cells + score.rows + score.columns + score.diagonals + score.fullBoard;
+  return score;
+};
+
+export const scoreGrid = (grid: GridCell[] = [], rules: ScoringRules = DEFAULT_SCORING_RULES): number =>
+  scoreBreakdown(grid, rules).total;
+
+// A merge passes when more than half of the active players are in favour
+const hasMajority = (room: GameRoom, votes: Record<string, boolean> = {}) => {
+  const active = getActivePlayers(room);
+  return active.filter(p => votes[p.id]).length * 2 > active.length;
+};
+
+// The mark a challenge settles on, or null while the vote is still open.
+// A mark backed by more than half of the active players wins; if everyone voted without one, the mark stands.
+const challengeOutcome = (room: GameRoom, challenge: Challenge, votes: Record<string, ScoreType>): ScoreType | null => {
+  const active = getActivePlayers(room);
+  const tally: Partial<Record<ScoreType, number>> = {};
+  active.forEach(p => {
+    const vote = votes[p.id];
+    if (vote) tally[vote] = (tally[vote] || 0) + 1;
+  });
+
+  const winner = (Object.keys(tally) as ScoreType[]).find(s => tally[s]! * 2 > active.length);
+  if (winner) return winner;
+  return active.every(p => votes[p.id]) ? challenge.currentScore : null;
+};
+
+// Players only record votes; the host client applies each decided vote with the action returned here
+export const pendingSettlement = (room: GameRoom): GameAction | null => {
+  if (room.phase !== GamePhase.VALIDATION) return null;
+  const passed = (Object.values(room.mergeProposals || {}) as MergeProposal[]).find(p => hasMajority(room, p.votes));
+  if (passed) return { type: 'APPLY_MERGE', proposalId: passed.id };
+  const decided = (Object.values(room.challenges || {}) as Challenge[]).find(c => challengeOutcome(room, c, c.votes || {}));
+  return decided ? { type: 'SETTLE_CHALLENGE', challengeId: decided.id } : null;
+};
+
+// Merge two answer groups of a topic and re-mark only the cells of the merged class
+const mergeUpdates = (room: GameRoom, topic: number, keys: string[], by: string, proposalId?: string): RoomUpdates => {
+  const merges: AnswerMerge[] = [...(room.merges || []), { topic, keys, by }];
+  const marks = proposeScores(room.players, getBoardSize(room), merges, { topic, key: keys[0] });
+  const updates: RoomUpdates = { merges };
+  Object.entries(marks).forEach(([path, score]) => {
+    const [, playerId, , cell] = path.split('/');
+    if (!isSettled(room, playerId, Number(cell))) updates[path] = score;
+  });
+  if (proposalId && room.mergeProposals?.[proposalId]) updates[`mergeProposals/${proposalId}`] = null;
+  return updates;
+};
+
+// Close a challenge on the given mark and keep the cell from being challenged or cycled again
+const settleUpdates = (challenge: Challenge, score: ScoreType): RoomUpdates => ({
+  [`players/${challenge.playerId}/grid/${challenge.cell}/score`]: score,
+  [`settledCells/${settledKey(challenge.playerId, challenge.cell)}`]: true,
+  [`challenges/${challenge.id}`]: null
+});
+
+const assertPhase = (room: GameRoom, ...phases: GamePhase[]) => {
+  if (!phases.includes(room.phase)) {
+    throw new Error(`Not allowed during ${room.phase.replace('_', ' ')}`);
+  }
+};
+
+const assertTopicPicker = (room: GameRoom, actorId: string) => {
+  if (!canPickTopics(room, actorId)) {
+    throw new Error(getTopicMode(room) === 'rotate' ? 'It is not your turn to pick topics' : 'Only the host or a co-host can pick topics');
+  }
+};
+
+const assertCell = (room: GameRoom, cell: number) => {
+  const size = getBoardSize(room);
+  if (!Number.isInteger(cell) || cell < 0 || cell >= size * size) throw new Error('No such cell');
+};
+
+const transition = (room: GameRoom, to: GamePhase): RoomUpdates => {
+  if (!canTransition(room.phase, to)) {
+    throw new Error(`Cannot move from ${room.phase} to ${to}`);
+  }
+  return { phase: to };
+};
+
+// Empty boards and topics, and drop everything decided about the last round
+const clearRound = (room: GameRoom): RoomUpdates => {
+  const updates: RoomUpdates = {
+    topics: createEmptyTopics(getBoardSize(room)),
+    topicCandidates: null,
+    scoresProposed: null,
+    writingDeadline: null,
+    merges: null,
+    mergeProposals: null,
+    challenges: null,
+    settledCells: null
+  };
+  Object.keys(room.players || {}).forEach(id => {
+    updates[`players/${id}/grid`] = createEmptyGrid(getBoardSize(room));
+    updates[`players/${id}/isReady`] = false;
+    updates[`players/${id}/answersPublished`] = null;
+    updates[`players/${id}/answeredCount`] = null;
+  });
+  return updates;
+};
+
+// Turn a spectator into a player with an empty board
+const seatSpectator = (room: GameRoom, spectator: Spectator): RoomUpdates => ({
+  [`players/${spectator.id}`]: createPlayer(spectator.id, spectator.name, getBoardSize(room), spectator.status),
+  [`spectators/${spectator.id}`]: null
+});
+
+// Seat everyone who has been waiting for the next round, first come first served up to the player cap
+const seatWaitingSpectators = (room: GameRoom): RoomUpdates => {
+  const free = room.maxPlayers ? Math.max(0, room.maxPlayers - getActivePlayers(room).length) : Infinity;
+  return getSpectators(room)
+    .filter(s => s.seatNextRound)
+    .slice(0, free)
+    .reduce((updates, s) => ({ ...updates, ...seatSpectator(room, s) }), {} as RoomUpdates);
+};
+
+// Take someone out of the room, along with any challenge against their board
+const removeMember = (room: GameRoom, id: string): RoomUpdates => {
+  if (id === room.hostId) throw new Error('The host cannot remove themselves');
+  if (!room.players?.[id] && !room.spectators?.[id]) throw new Error('Player not found');
+
+  const updates: RoomUpdates = {
+    [`players/${id}`]: null,
+    [`spectators/${id}`]: null,
+    [`coHosts/${id}`]: null
+  };
+  (Object.values(room.challenges || {}) as Challenge[])
+    .filter(c => c.playerId === id)
+    .forEach(c => {
+      updates[`challenges/${c.id}`] = null;
+    });
+  return updates;
+};
+
+// End WRITING. Each player then publishes their own answers, and the host pre-fills the marks.
+const lockBoards = (room: GameRoom): RoomUpdates => transition(room, GamePhase.SCORING);
+
+export const applyAction = (room: GameRoom, actorId: string, action: GameAction): RoomUpdates => {
+  const actor = room.players?.[actorId];
+  if (!actor) throw new Error('You are not in this room');
+  if (HOST_ACTIONS.includes(action.type) && room.hostId !== actorId) {
+    throw new Error('Only the host can do that');
+  }
+  if (CO_HOST_ACTIONS.includes(action.type) && !canRunGame(room, actorId)) {
+    throw new Error('Only the host or a co-host can do that');
+  }
+
+  switch (action.type) {
+    case 'SET_BOARD_SIZE': {
+      assertPhase(room, GamePhase.LOBBY);
+      if (!BOARD_SIZES.includes(action.size)) throw new Error('Unsupported board size');
+
+      // Boards, topics and per-line bonuses all follow the size
+      const defaults = defaultScoringRules(action.size);
+      const updates: RoomUpdates = {
+        boardSize: action.size,
+        topics: createEmptyTopics(action.size),
+        scoringRules: { ...getScoringRules(room), rowBonuses: defaults.rowBonuses, colBonuses: defaults.colBonuses }
+      };
+      Object.keys(room.players || {}).forEach(id => {
+        updates[`players/${id}/grid`] = createEmptyGrid(action.size);
+      });
+      return updates;
+    }
+
+    case 'SET_SCORING_RULES':
+      assertPhase(room, GamePhase.LOBBY);
+      validateScoringRules(action.rules, getBoardSize(room));
+      return { scoringRules: action.rules };
+
+    case 'SET_TOPIC_MODE':
+      assertPhase(room, GamePhase.LOBBY);
+      if (!TOPIC_MODES.includes(action.mode)) throw new Error('Unsupported topic mode');
+      return { topicMode: action.mode };
+
+    case 'START_GAME':
+      return {
+        ...transition(room, GamePhase.SELECT_TOPICS),
+        topicPicker: getTopicMode(room) === 'rotate' ? nextTopicPicker(room) : null
+      };
+
+    case 'SET_TOPIC':
+      assertPhase(room, GamePhase.SELECT_TOPICS);
+      assertTopicPicker(room, actorId);
+      if (action.index < 0 || action.index >= getBoardSize(room)) throw new Error('No such topic');
+      return { [`topics/${action.index}`]: action.topic };
+
+    case 'SET_TOPICS':
+      assertPhase(room, GamePhase.SELECT_TOPICS);
+      assertTopicPicker(room, actorId);
+      if (action.topics.length !== getBoardSize(room)) throw new Error(`Pick exactly ${getBoardSize(room)} topics`);
+      return { topics: action.topics.map(cleanAnswer) };
+
+    case 'SET_WRITING_TIME_LIMIT':
+      assertPhase(room, GamePhase.LOBBY);
+      if (!WRITING_TIME_LIMITS.includes(action.seconds)) throw new Error('Unsupported time limit');
+      return { writingTimeLimit: action.seconds };
+
+    case 'SET_MATCH_LENGTH':
+      assertPhase(room, GamePhase.LOBBY);
+      if (!MATCH_LENGTHS.includes(action.rounds)) throw new Error('Unsupported match length');
+      return { matchLength: action.rounds };
+
+    case 'SUBMIT_TOPIC': {
+      assertPhase(room, GamePhase.SELECT_TOPICS);
+      if (getTopicMode(room) !== 'vote') throw new Error('Topics are not put to a vote in this room');
+      const topic = cleanAnswer(action.topic);
+      if (!answerKey(topic)) throw new Error('Write a topic first');
+      if (getUsedTopics(room).some(t => answerKey(t) === answerKey(topic))) throw new Error(`"${topic}" was already played this match`);
+
+      const candidates = Object.values(room.topicCandidates || {}) as TopicCandidate[];
+      if (candidates.some(c => answerKey(c.topic) === answerKey(topic))) throw new Error(`"${topic}" is already on the list`);
+      if (candidates.filter(c => c.by === actorId).length >= getBoardSize(room)) {
+        throw new Error(`You can suggest up to ${getBoardSize(room)} topics`);
+      }
+      if (room.topicCandidates?.[action.candidateId]) throw new Error('Duplicate topic id');
+
+      const candidate: TopicCandidate = { id: action.candidateId, topic, by: actorId, votes: { [actorId]: true } };
+      return { [`topicCandidates/${action.candidateId}`]: candidate };
+    }
+
+    case 'WITHDRAW_TOPIC': {
+      assertPhase(room, GamePhase.SELECT_TOPICS);
+      const candidate = room.topicCandidates?.[action.candidateId];
+      if (!candidate) throw new Error('That topic is no longer on the list');
+      if (candidate.by !== actorId && !canRunGame(room, actorId)) throw new Error('Only its author or the host can remove a topic');
+      return { [`topicCandidates/${action.candidateId}`]: null };
+    }
+
+    case 'VOTE_TOPIC': {
+      assertPhase(room, GamePhase.SELECT_TOPICS);
+      const candidate = room.topicCandidates?.[action.candidateId];
+      if (!candidate) throw new Error('That topic is no longer on the list');
+      if (candidate.votes?.[actorId]) return { [`topicCandidates/${candidate.id}/votes/${actorId}`]: null };
+
+      const cast = (Object.values(room.topicCandidates || {}) as TopicCandidate[]).filter(c => c.votes?.[actorId]).length;
+      if (cast >= getBoardSize(room)) throw new Error(`You have ${getBoardSize(room)} votes; take one back first`);
+      return { [`topicCandidates/${candidate.id}/votes/${actorId}`]: true };
+    }
+
+    case 'CONFIRM_TOPICS': {
+      const updates: RoomUpdates = {
+        ...transition(room, GamePhase.WRITING),
+        writingDeadline: room.writingTimeLimit ? action.now + room.writingTimeLimit * 1000 : null
+      };
+
+      if (getTopicMode(room) === 'vote') {
+        // The host closes the vote; the best-supported candidates become the topics
+        if (!canRunGame(room, actorId)) throw new Error('Only the host or a co-host can close the topic vote');
+        const ranked = rankTopicCandidates(room);
+        if (ranked.length < getBoardSize(room)) throw new Error(`Need at least ${getBoardSize(room)} suggested topics`);
+        return {
+          ...updates,
+          topics: ranked.slice(0, getBoardSize(room)).map(c => c.topic),
+          topicCandidates: null
+        };
+      }
+
+      assertTopicPicker(room, actorId);
+      const used = new Set(getUsedTopics(room).map(answerKey));
+      const repeat = (room.topics || []).find(t => answerKey(t) && used.has(answerKey(t)));
+      if (repeat) throw new Error(`"${repeat}" was already played this match`);
+      return updates;
+    }
+
+    case 'SET_ANSWERED_COUNT': {
+      assertPhase(room, GamePhase.WRITING);
+      const cells = getBoardSize(room) ** 2;
+      if (!Number.isInteger(action.count) || action.count < 0 || action.count > cells) throw new Error('No such cell count');
+      return { [`players/${actorId}/answeredCount`]: action.count };
+    }
+
+    case 'SET_READY':
+      assertPhase(room, GamePhase.WRITING, GamePhase.SCORING);
+      if (action.ready && room.phase === GamePhase.SCORING && !actor.answersPublished) {
+        throw new Error('Your answers are still being collected');
+      }
+      return { [`players/${actorId}/isReady`]: action.ready };
+
+    case 'SET_AUTO_ADVANCE':
+      assertPhase(room, GamePhase.LOBBY);
+      return { autoAdvance: action.enabled || null };
+
+    case 'LOCK_BOARDS':
+      return lockBoards(room);
+
+    case 'TIME_UP':
+      assertPhase(room, GamePhase.WRITING);
+      if (!room.writingDeadline || action.now < room.writingDeadline) throw new Error('Time is not up yet');
+      return lockBoards(room);
+
+    case 'PUBLISH_ANSWERS': {
+      assertPhase(room, GamePhase.SCORING);
+      if (actor.answersPublished) throw new Error('Your answers are already on the board');
+      const size = getBoardSize(room);
+      if (action.words.length !== size * size) throw new Error('Answer sheet does not match the board');
+
+      // "Done writing" does not carry over into marking
+      const updates: RoomUpdates = { [`players/${actorId}/answersPublished`]: true, [`players/${actorId}/isReady`]: false };
+      action.words.forEach((word, cell) => {
+        updates[`players/${actorId}/grid/${cell}/word`] = cleanAnswer(word || '');
+      });
+      return updates;
+    }
+
+    case 'PROPOSE_SCORES':
+      // Pre-fill every player's marks once; players can still override with CYCLE_SCORE
+      assertPhase(room, GamePhase.SCORING);
+      if (room.scoresProposed) throw new Error('Marks were already filled in');
+      if (!allAnswersPublished(room)) throw new Error('Still waiting for answers');
+      return { ...proposeScores(room.players, getBoardSize(room)), scoresProposed: true };
+
+    case 'CYCLE_SCORE': {
+      // Once the boards are revealed, marks only change through a challenge vote
+      assertPhase(room, GamePhase.SCORING);
+      assertCell(room, action.cell);
+      const current = actor.grid?.[action.cell]?.score || 'NONE';
+      const next = SCORE_CYCLE[(SCORE_CYCLE.indexOf(current) + 1) % SCORE_CYCLE.length];
+      const updates: RoomUpdates = { [`players/${actorId}/grid/${action.cell}/score`]: next };
+      // Changing a mark means you are not done marking after all
+      if (actor.isReady) updates[`players/${actorId}/isReady`] = false;
+      return updates;
+    }
+
+    case 'REVEAL_BOARDS':
+      return transition(room, GamePhase.VALIDATION);
+
+    case 'MERGE_GROUPS': {
+      assertPhase(room, GamePhase.VALIDATION);
+      if (!Number.isInteger(action.topic) || action.topic < 0 || action.topic >= getBoardSize(room)) throw new Error('No such topic');
+      if (action.keys.length !== 2 || action.keys[0] === action.keys[1]) throw new Error('Pick two different groups');
+      const groupKeys = groupAnswers(room.players, action.topic, getBoardSize(room), room.merges).map(g => g.key);
+      if (!action.keys.every(key => groupKeys.includes(key))) throw new Error('Those answers are no longer on the board');
+
+      // Host merges directly; everyone else opens a proposal, which the host applies once most of the room agrees
+      if (actorId === room.hostId) return mergeUpdates(room, action.topic, action.keys, actorId);
+
+      const proposal: MergeProposal = {
+        id: action.proposalId,
+        topic: action.topic,
+        keys: action.keys,
+        words: action.words,
+        proposedBy: actorId,
+        votes: { [actorId]: true }
+      };
+      return { [`mergeProposals/${proposal.id}`]: proposal };
+    }
+
+    case 'VOTE_MERGE': {
+      assertPhase(room, GamePhase.VALIDATION);
+      const proposal = room.mergeProposals?.[action.proposalId];
+      if (!proposal) throw new Error('That merge vote is already closed');
+      return { [`mergeProposals/${proposal.id}/votes/${actorId}`]: true };
+    }
+
+    case 'APPLY_MERGE': {
+      assertPhase(room, GamePhase.VALIDATION);
+      const proposal = room.mergeProposals?.[action.proposalId];
+      if (!proposal) throw new Error('That merge vote is already closed');
+      if (!hasMajority(room, proposal.votes)) throw new Error('Most of the room has not agreed to that merge yet');
+      return mergeUpdates(room, proposal.topic, proposal.keys, 'vote', proposal.id);
+    }
+
+    case 'OPEN_CHALLENGE': {
+      assertPhase(room, GamePhase.VALIDATION);
+      assertCell(room, action.cell);
+      const target = room.players[action.playerId];
+      if (!target) throw new Error('Player not found');
+      if (action.playerId === actorId) throw new Error('You cannot challenge your own board');
+      if (findChallenge(room, action.playerId, action.cell)) throw new Error('This cell is already being challenged');
+      if (isSettled(room, action.playerId, action.cell)) throw new Error('The room already voted on this cell');
+
+      const challenge: Challenge = {
+        id: action.challengeId,
+        playerId: action.playerId,
+        cell: action.cell,
+        challengerId: actorId,
+        currentScore: target.grid?.[action.cell]?.score || 'NONE',
+        votes: { [actorId]: action.score }
+      };
+      return { [`challenges/${challenge.id}`]: challenge };
+    }
+
+    case 'VOTE_CHALLENGE': {
+      assertPhase(room, GamePhase.VALIDATION);
+      const challenge = room.challenges?.[action.challengeId];
+      if (!challenge) throw new Error('That challenge is already settled');
+      return { [`challenges/${challenge.id}/votes/${actorId}`]: action.score };
+    }
+
+    case 'SETTLE_CHALLENGE': {
+      assertPhase(room, GamePhase.VALIDATION);
+      const challenge = room.challenges?.[action.challengeId];
+      if (!challenge) throw new Error('That challenge is already settled');
+      const outcome = challengeOutcome(room, challenge, challenge.votes || {});
+      if (!outcome) throw new Error('The room is still voting on this challenge');
+      return settleUpdates(challenge, outcome);
+    }
+
+    // Lets the host end a vote that stalled, e.g. on a player who went quiet; the mark stands
+    case 'CLOSE_CHALLENGE': {
+      assertPhase(room, GamePhase.VALIDATION);
+      const challenge = room.challenges?.[action.challengeId];
+      if (!challenge) throw new Error('That challenge is already settled');
+      return settleUpdates(challenge, challenge.currentScore);
+    }
+
+    case 'FINALIZE_SCORES': {
+      const round = room.round || 1;
+      // Idempotent: a round adds to totalScore once, however many times this is sent
+      if (room.scoredRound === round) throw new Error('Scores for this round are already final');
+      if (hasOpenChallenges(room)) throw new Error('Settle all challenges before finishing');
+
+      const updates = transition(room, GamePhase.FINISHED);
+      const rules = getScoringRules(room);
+      const record: RoundRecord = { round, topics: room.topics || [], players: {} };
+      (Object.values(room.players || {}) as Player[]).forEach(p => {
+        const score = scoreBreakdown(p.grid, rules);
+        record.players[p.id] = { name: p.name, grid: p.grid || [], score };
+        updates[`players/${p.id}/totalScore`] = (p.totalScore || 0) + score.total;
+      });
+      updates[`history/r${round}`] = record;
+      updates.scoredRound = round;
+      return updates;
+    }
+
+    case 'SEAT_SPECTATOR': {
+      assertPhase(room, GamePhase.LOBBY);
+      const spectator = room.spectators?.[action.spectatorId];
+      if (!spectator) throw new Error('Spectator not found');
+      if (isRoomFull(room)) throw new Error('The room is full');
+      return seatSpectator(room, spectator);
+    }
+
+    case 'KICK_PLAYER':
+      return removeMember(room, action.playerId);
+
+    case 'BAN_PLAYER': {
+      const member = room.players?.[action.playerId] || room.spectators?.[action.playerId];
+      return {
+        ...removeMember(room, action.playerId),
+        [`banned/${action.playerId}`]: member?.name || ''
+      };
+    }
+
+    case 'UNBAN_PLAYER':
+      if (room.banned?.[action.playerId] === undefined) throw new Error('That player is not banned');
+      return { [`banned/${action.playerId}`]: null };
+
+    case 'SET_ROOM_LOCKED':
+      return { locked: action.locked || null };
+
+    case 'SET_MAX_PLAYERS':
+      if (!PLAYER_CAPS.includes(action.count)) throw new Error('Unsupported player cap');
+      if (action.count && getActivePlayers(room).length > action.count) {
+        throw new Error(`There are already more than ${action.count} players`);
+      }
+      return { maxPlayers: action.count };
+
+    case 'TRANSFER_HOST': {
+      const target = room.players?.[action.playerId];
+      if (!target || target.status === 'leaved') throw new Error('Pick a player who is still here');
+      if (target.id === actorId) throw new Error('You are already the host');
+      return hostChangeUpdates(room, target.id);
+    }
+
+    case 'SET_CO_HOST': {
+      const target = room.players?.[action.playerId];
+      if (!target) throw new Error('Player not found');
+      if (target.id === room.hostId) throw new Error('The host is already in charge');
+      return { [`coHosts/${target.id}`]: action.coHost || null };
+    }
+
+    case 'RESTART_ROUND':
+      if (isMatchOver(room)) throw new Error('The match is over, start a new match');
+      return {
+        ...transition(room, GamePhase.SELECT_TOPICS),
+        ...clearRound(room),
+        ...seatWaitingSpectators(room),
+        round: (room.round || 1) + 1,
+        topicPicker: getTopicMode(room) === 'rotate' ? nextTopicPicker(room) : null
+      };
+
+    case 'NEW_MATCH': {
+      // Back to the lobby with fresh totals; settings stay
+      const updates: RoomUpdates = {
+        ...transition(room, GamePhase.LOBBY),
+        ...clearRound(room),
+        ...seatWaitingSpectators(room),
+        round: 1,
+        topicPicker: null,
+        scoredRound: null,
+        history: null
+      };
+      Object.keys(room.players || {}).forEach(id => {
+        updates[`players/${id}/totalScore`] = 0;
+      });
+      return updates;
+    }
+  }
+};
+
+// Apply a path-style patch to a room without touching the original
+export const applyUpdates = (room: GameRoom, updates: RoomUpdates): GameRoom => {
+  const next: any = JSON.parse(JSON.stringify(room));
+  Object.entries(updates).forEach(([path, value]) => {
+    const keys = path.split('/').filter(Boolean);
+    let node = next;
+    keys.slice(0, -1).forEach(key => {
+      if (node[key] === null || typeof node[key] !== 'object') node[key] = {};
+      node = node[key];
+    });
+    const last = keys[keys.length - 1];
+    if (value === null) delete node[last];
+    else node[last] = JSON.parse(JSON.stringify(value));
+  });
+  return next;
+};
+
+export const gameReducer = (room: GameRoom, actorId: string, action: GameAction): GameRoom =>
+  applyUpdates(room, applyAction(room, actorId, action));
@@ -2,15 +2,19 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import TvDisplay from './TvDisplay';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// ?tv=ROOM_CODE opens the read-only big-screen display instead of the game
+const tvRoomId = new URLSearchParams(window.location.search).get('tv');
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {tvRoomId ? <TvDisplay roomId={tvRoomId} /> : <App />}
   </React.StrictMode>
 );
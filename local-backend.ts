@@ -0,0 +1,86 @@
+import { createRoomStore, RoomStore } from './room-store';
+import { createMemoryBackend } from './firebase-mock';
+
+/**
+ * Multi-tab local play: every tab keeps an in-memory replica of the database,
+ * localStorage holds the shared copy, and a BroadcastChannel tells the other tabs to reload it.
+ * Closing a tab runs its queued onDisconnect writes, like a dropped Firebase connection.
+ */
+export const createLocalBackend = (storageKey = 'jinx_local_db') => {
+  const replica = createMemoryBackend('LocalDB');
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(storageKey) : null;
+
+  // The memory backend runs synchronously, so these complete before returning
+  const pull = () => {
+    const raw = localStorage.getItem(storageKey);
+    replica.set('', raw ? JSON.parse(raw) : null);
+  };
+  const push = () => {
+    localStorage.setItem(storageKey, JSON.stringify(replica.dump()));
+    channel?.postMessage('changed');
+  };
+
+  // Tabs take turns writing: two tabs that pulled the same state would otherwise each push over the other's write.
+  // Browsers without the Web Locks API fall back to unserialized writes.
+  const exclusive = <T>(task: () => Promise<T>): Promise<T> =>
+    typeof navigator !== 'undefined' && navigator.locks ? navigator.locks.request(storageKey, task) : task();
+
+  // Apply a write on top of the freshest shared state, then share the result
+  const write = (op: () => Promise<void>) => exclusive(async () => {
+    pull();
+    await op();
+    push();
+  });
+
+  if (channel) {
+    channel.onmessage = () => pull();
+  } else {
+    window.addEventListener('storage', (e) => {
+      if (e.key === storageKey) pull();
+    });
+  }
+
+  // Runs synchronously so it completes before the tab goes away, without waiting for the lock
+  window.addEventListener('pagehide', () => {
+    pull();
+    replica.disconnect();
+    push();
+  });
+
+  pull();
+
+  return {
+    ...replica,
+    name: 'LocalDB',
+    get: async (path: string) => {
+      pull();
+      return replica.get(path);
+    },
+    queryBefore: async (path: string, child: string, before: number, limit: number) => {
+      pull();
+      return replica.queryBefore(path, child, before, limit);
+    },
+    set: (path: string, value: any) => write(() => replica.set(path, value)),
+    update: (path: string, updates: Record<string, any>) => write(() => replica.update(path, updates)),
+    remove: (path: string) => write(() => replica.remove(path)),
+    transaction: async (path: string, apply: (value: any) => any) => {
+      let committed = false;
+      await write(async () => {
+        committed = await replica.transaction(path, apply);
+      });
+      return committed;
+    },
+    disconnect: () => write(() => replica.disconnect()),
+    // One player per tab, kept across reloads of that tab
+    signIn: async () => {
+      let uid = sessionStorage.getItem(`${storageKey}_uid`);
+      if (!uid) {
+        uid = Math.random().toString(36).substr(2, 9);
+        sessionStorage.setItem(`${storageKey}_uid`, uid);
+      }
+      return uid;
+    },
+  };
+};
+
+export const createLocalDb = (): RoomStore => createRoomStore(createLocalBackend());
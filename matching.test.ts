@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { createPlayer } from './game-engine';
+import { proposeScores } from './matching';
+import { Player } from './types';
+
+// One player per entry, with their answers for the first topic of a 3x3 board
+const players = (answers: Record<string, string[]>): Record<string, Player> =>
+  Object.fromEntries(Object.entries(answers).map(([id, words]) => {
+    const player = createPlayer(id, id.toUpperCase());
+    words.forEach((word, i) => { player.grid[i].word = word; });
+    return [id, player];
+  }));
+
+describe('proposeScores', () => {
+  const room = players({
+    h: ['apple', 'red', 'cat'],
+    a: ['Apple', 'red', ''],
+    b: ['apple ', 'blue', 'dog'],
+    c: ['pear', 'blue', 'dog']
+  });
+  const marks = proposeScores(room, 3);
+
+  it('marks an answer two or more others wrote O', () => {
+    expect([marks['players/h/grid/0/score'], marks['players/a/grid/0/score'], marks['players/b/grid/0/score']]).toEqual(['O', 'O', 'O']);
+  });
+
+  it('marks an answer exactly one other player wrote STAR', () => {
+    expect([marks['players/h/grid/1/score'], marks['players/a/grid/1/score']]).toEqual(['STAR', 'STAR']);
+    expect([marks['players/b/grid/2/score'], marks['players/c/grid/2/score']]).toEqual(['STAR', 'STAR']);
+  });
+
+  it('marks an answer nobody else wrote, or an empty cell, X', () => {
+    expect(marks['players/c/grid/0/score']).toBe('X');
+    expect(marks['players/h/grid/2/score']).toBe('X');
+    expect(marks['players/a/grid/2/score']).toBe('X');
+  });
+
+  it('counts merged answers as one', () => {
+    const merged = proposeScores(room, 3, [{ topic: 0, keys: ['apple', 'pear'], by: 'h' }]);
+    expect(merged['players/c/grid/0/score']).toBe('O');
+  });
+});
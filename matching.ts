@@ -0,0 +1,103 @@
+import { AnswerMerge, Player, ScoreType } from './types';
+import { answerKey, cleanAnswer } from './normalize';
+
+export interface AnswerGroup {
+  key: string; // canonical match key of the equivalence class
+  words: string[]; // distinct spellings as written
+  playerIds: string[]; // players with at least one answer in this class
+  cells: { playerId: string; idx: number }[];
+}
+
+// On an N x N board topic t owns row t of the grid (cells t*N..t*N+N-1)
+export const topicCells = (topic: number, size: number): number[] =>
+  Array.from({ length: size }, (_, k) => topic * size + k);
+
+// Union-find over the saved merges of one topic: match key -> canonical key
+const keyResolver = (merges: AnswerMerge[] | undefined, topic: number) => {
+  const parent = new Map<string, string>();
+  const find = (key: string): string => {
+    while (parent.has(key)) key = parent.get(key)!;
+    return key;
+  };
+
+  (merges || []).filter(m => m.topic === topic).forEach(m => {
+    const roots = (m.keys || []).map(find).sort();
+    roots.slice(1).forEach(r => {
+      if (r !== roots[0]) parent.set(r, roots[0]);
+    });
+  });
+
+  return find;
+};
+
+// Canonical key of a match key after merges are applied
+export const resolveKey = (merges: AnswerMerge[] | undefined, topic: number, key: string): string =>
+  keyResolver(merges, topic)(key);
+
+// Every player's answers for one topic, grouped into equivalence classes
+export const groupAnswers = (
+  players: Record<string, Player>,
+  topic: number,
+  size: number,
+  merges?: AnswerMerge[]
+): AnswerGroup[] => {
+  const resolve = keyResolver(merges, topic);
+  const groups = new Map<string, AnswerGroup>();
+
+  (Object.values(players || {}) as Player[]).forEach(p => {
+    topicCells(topic, size).forEach(idx => {
+      const word = cleanAnswer(p.grid?.[idx]?.word || '');
+      const matchKey = answerKey(word);
+      if (!matchKey) return;
+      const key = resolve(matchKey);
+
+      if (!groups.has(key)) groups.set(key, { key, words: [], playerIds: [], cells: [] });
+      const group = groups.get(key)!;
+      if (!group.words.includes(word)) group.words.push(word);
+      if (!group.playerIds.includes(p.id)) group.playerIds.push(p.id);
+      group.cells.push({ playerId: p.id, idx });
+    });
+  });
+
+  return [...groups.values()].sort((a, b) => b.playerIds.length - a.playerIds.length || a.key.localeCompare(b.key));
+};
+
+/**
+ * Propose O/X/STAR for every cell by comparing answers topic by topic.
+ * Nobody else wrote it -> X, exactly one other -> STAR (JinxO!), two or more -> O.
+ * Pass `only` to limit the result to the cells of one equivalence class.
+ * Returns path-style updates for db.updateRoom.
+ */
+export const proposeScores = (
+  players: Record<string, Player>,
+  size: number,
+  merges?: AnswerMerge[],
+  only?: { topic: number; key: string }
+): Record<string, ScoreType> => {
+  const updates: Record<string, ScoreType> = {};
+
+  for (let t = 0; t < size; t++) {
+    if (only && only.topic !== t) continue;
+
+    if (!only) {
+      // Empty cells never match anyone
+      (Object.values(players || {}) as Player[]).forEach(p => {
+        topicCells(t, size).forEach(idx => {
+          updates[`players/${p.id}/grid/${idx}/score`] = 'X';
+        });
+      });
+    }
+
+    const onlyKey = only ? resolveKey(merges, t, only.key) : '';
+    groupAnswers(players, t, size, merges).forEach(group => {
+      if (only && group.key !== onlyKey) return;
+      const others = group.playerIds.length - 1;
+      const score: ScoreType = others === 0 ? 'X' : others === 1 ? 'STAR' : 'O';
+      group.cells.forEach(({ playerId, idx }) => {
+        updates[`players/${playerId}/grid/${idx}/score`] = score;
+      });
+    });
+  }
+
+  return updates;
+};
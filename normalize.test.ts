@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { answerKey, cleanAnswer } from './normalize';
+
+// [a, b] pairs that must jinx
+const SAME: [string, string][] = [
+  ['แมว', 'แมว '],
+  ['แมว', ' แมว\u200B'],
+  ['แมว', 'แมวววว'],
+  ['น้ำ', 'นํ้า'], // nikhahit + sara aa typed after the tone mark
+  ['น้ำ', 'น้ํา'],
+  ['ไก่ย่าง', 'ไก่ ย่าง'],
+  ['ส้มตำ', 'ส้มตำ!'],
+  ['๑๒๓', '123'],
+  ['เซเว่น 11', 'เซเว่น ๑๑'],
+  ['Pizza', 'pizza'],
+  ['Ｐｉｚｚａ', 'pizza'], // full-width
+  ['ice-cream', 'Ice Cream'],
+  ['yesss', 'yes'],
+  ['ก๋วยเตี๋ยว', 'ก๋วยเตี๋ยว\uFEFF'],
+];
+
+// [a, b] pairs that must NOT jinx
+const DIFFERENT: [string, string][] = [
+  ['iPhone 11', 'iPhone 1'],
+  ['100', '10'],
+  ['beet', 'bet'],
+  ['7-11', '7-1'],
+  ['book', 'bok'],
+  ['แมว', 'แม'],
+  ['ไก่', 'ไข่'],
+  ['ข้าว', 'ขาว'],
+  ['เสือ', 'เสื้อ'],
+  ['๑๐๐', '๑๐'],
+];
+
+describe('answerKey', () => {
+  it.each(SAME)('%s matches %s', (a, b) => {
+    expect(answerKey(a)).toBe(answerKey(b));
+  });
+
+  it.each(DIFFERENT)('%s does not match %s', (a, b) => {
+    expect(answerKey(a)).not.toBe(answerKey(b));
+  });
+
+  it.each(['', '   ', '\u200B', '!?', null, undefined])('treats %j as no answer', (word) => {
+    expect(answerKey(word)).toBe('');
+  });
+});
+
+describe('cleanAnswer', () => {
+  it.each([
+    ['  แมว  ', 'แมว'],
+    ['ไก่\u200Bย่าง', 'ไก่ย่าง'],
+    ['ice   cream', 'ice cream'],
+    ['Pizza', 'Pizza'],
+  ])('cleans %j to %j', (word, expected) => {
+    expect(cleanAnswer(word)).toBe(expected);
+  });
+});
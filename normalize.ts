@@ -0,0 +1,46 @@
+// Answer normalization for Thai / English / mixed answers.
+// Two answers "jinx" when their match keys are equal, e.g. "แมว", "แมว " and "แมว\u200B".
+
+// Zero-width and other invisible characters that sneak in from Thai keyboards / copy-paste
+const INVISIBLE_CHARS = /[\u00AD\u180E\u200B-\u200F\u2060-\u2064\uFEFF]/g;
+
+// Thai digits ๐-๙ (U+0E50-U+0E59)
+const THAI_DIGITS = /[\u0E50-\u0E59]/g;
+
+// Thai combining marks: above/below vowels, nikhahit and tone marks
+const THAI_MARKS = /[\u0E31\u0E34-\u0E3A\u0E47-\u0E4E]+/g;
+const isThaiToneMark = (ch: string) => ch >= '\u0E48' && ch <= '\u0E4B';
+
+// Vowel marks before tone marks, so "นํ้า" and "น้ำ" end up in the same order
+const reorderThaiMarks = (marks: string) =>
+  [...marks].sort((a, b) => Number(isThaiToneMark(a)) - Number(isThaiToneMark(b))).join('');
+
+/**
+ * Clean an answer for storage/display: drops invisible characters and
+ * collapses whitespace, but keeps the player's spelling and case.
+ */
+export const cleanAnswer = (word: string): string =>
+  (word || '')
+    .normalize('NFC')
+    .replace(INVISIBLE_CHARS, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Canonical match key for a GridCell.word. Empty string means "no answer".
+ * - NFKC (full-width Latin -> ASCII, "ํา" -> "ำ" decomposed consistently)
+ * - invisible characters, whitespace and punctuation removed
+ * - Thai digits -> Arabic digits, lower case
+ * - Thai vowel/tone marks put in a stable order
+ * - stretched letters collapsed, three or more in a row ("แมวววว" -> "แมว", "yesss" -> "yes");
+ *   pairs ("beet") and digits ("100", "iPhone 11") are real spellings and stay
+ */
+export const answerKey = (word?: string | null): string =>
+  cleanAnswer(word || '')
+    .normalize('NFKC')
+    .replace(INVISIBLE_CHARS, '')
+    .replace(THAI_DIGITS, d => String(d.charCodeAt(0) - 0x0E50))
+    .toLowerCase()
+    .replace(/[\s\p{P}]+/gu, '')
+    .replace(THAI_MARKS, reorderThaiMarks)
+    .replace(/(\D)\1{2,}/gu, '$1');
@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryBackend } from './firebase-mock';
+import { applyAction, createPlayer } from './game-engine';
+import { createRoomStore, RoomStore } from './room-store';
+import { GamePhase, GameRoom } from './types';
+
+// Host h with player a, in the middle of marking
+const makeRoom = (): GameRoom => ({
+  id: '1234',
+  hostId: 'h',
+  topics: ['Fruits', 'Colors', 'Pets'],
+  phase: GamePhase.SCORING,
+  players: {
+    h: { ...createPlayer('h', 'H'), isHost: true },
+    a: createPlayer('a', 'A')
+  },
+  createdAt: Date.now()
+});
+
+describe('two clients on one database', () => {
+  let backend: ReturnType<typeof createMemoryBackend>;
+  // Each client signs in as its own uid but shares the database
+  const client = (uid: string): RoomStore => createRoomStore({ ...backend, signIn: async () => uid });
+  const read = async (): Promise<GameRoom> => backend.get('rooms/1234');
+
+  beforeEach(async () => {
+    backend = createMemoryBackend();
+    await backend.set('rooms/1234', makeRoom());
+  });
+
+  it('keeps both edits made from the same stale snapshot', async () => {
+    const seen = await read();
+    await Promise.all([
+      client('h').updateRoom('1234', applyAction(seen, 'h', { type: 'CYCLE_SCORE', cell: 0 })),
+      client('a').updateRoom('1234', applyAction(seen, 'a', { type: 'CYCLE_SCORE', cell: 1 }))
+    ]);
+    const room = await read();
+    expect(room.players.h.grid[0].score).toBe('O');
+    expect(room.players.a.grid[1].score).toBe('O');
+  });
+
+  it('lets two new players join at the same time', async () => {
+    await backend.update('rooms/1234', { phase: GamePhase.LOBBY });
+    await Promise.all([client('b').joinRoom('1234', 'b', 'B'), client('c').joinRoom('1234', 'c', 'C')]);
+    const room = await read();
+    expect(Object.keys(room.players).sort()).toEqual(['a', 'b', 'c', 'h']);
+  });
+
+  it('applies concurrent transactions one after the other', async () => {
+    const bump = (uid: string) => client(uid).transactRoom('1234', room => ({
+      ...room,
+      players: { ...room.players, [uid]: { ...room.players[uid], totalScore: room.players[uid].totalScore + 1 } },
+      scoredRound: (room.scoredRound || 0) + 1
+    }));
+    expect(await Promise.all([bump('h'), bump('a'), bump('h')])).toEqual([true, true, true]);
+    const room = await read();
+    expect(room.players.h.totalScore).toBe(2);
+    expect(room.players.a.totalScore).toBe(1);
+    expect(room.scoredRound).toBe(3);
+  });
+
+  it('clears the room, its answers and events when the host leaves last', async () => {
+    await backend.update('', { 'rooms/1234/players/a/status': 'leaved', 'answers/1234/h/r1/0': 'apple', 'events/1234/e1/by': 'h' });
+    await client('h').leaveRoom('1234', 'h', true);
+    expect(await read()).toBeNull();
+    expect(await backend.get('answers/1234')).toBeNull();
+    expect(await backend.get('events/1234')).toBeNull();
+  });
+
+  it('does not commit a transaction on a room that is gone', async () => {
+    await backend.remove('rooms/1234');
+    expect(await client('h').transactRoom('1234', room => ({ ...room, phase: GamePhase.FINISHED }))).toBe(false);
+    expect(await read()).toBeNull();
+  });
+});
+
+describe('removed players', () => {
+  let backend: ReturnType<typeof createMemoryBackend>;
+  const store = () => createRoomStore(backend);
+  const read = async (): Promise<GameRoom> => backend.get('rooms/1234');
+
+  beforeEach(async () => {
+    backend = createMemoryBackend();
+    await backend.set('rooms/1234', { ...makeRoom(), phase: GamePhase.LOBBY });
+  });
+
+  it('refuses a player node without its required fields', async () => {
+    await expect(backend.update('rooms/1234', { 'players/k/status': 'leaved' })).rejects.toThrow('Permission denied');
+    await expect(backend.remove('rooms/1234/players/a/name')).rejects.toThrow('Permission denied');
+    expect((await read()).players.k).toBeUndefined();
+  });
+
+  it('leaves no stub behind when a kicked player disconnects', async () => {
+    await store().joinRoom('1234', 'k', 'K');
+    await store().updateRoom('1234', applyAction(await read(), 'h', { type: 'KICK_PLAYER', playerId: 'k' }));
+    await backend.disconnect();
+    expect((await read()).players.k).toBeUndefined();
+  });
+
+  it('cancels the disconnect mark once the kicked client notices', async () => {
+    await store().joinRoom('1234', 'k', 'K');
+    await store().updateRoom('1234', applyAction(await read(), 'h', { type: 'KICK_PLAYER', playerId: 'k' }));
+    await store().forgetRoom('1234', 'k');
+    const warn = vi.spyOn(console, 'warn');
+    await backend.disconnect();
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('marks a seated spectator as leaved on disconnect', async () => {
+    await backend.update('rooms/1234', { phase: GamePhase.WRITING });
+    await store().joinRoom('1234', 's', 'S');
+    await backend.update('rooms/1234', { phase: GamePhase.LOBBY });
+    await store().updateRoom('1234', applyAction(await read(), 'h', { type: 'SEAT_SPECTATOR', spectatorId: 's' }));
+    await store().takeSeat('1234', 's');
+    const warn = vi.spyOn(console, 'warn');
+    await backend.disconnect();
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+    const room = await read();
+    expect(room.players.s.status).toBe('leaved');
+    expect(room.spectators?.s).toBeUndefined();
+  });
+
+  it('lets a kicked player come back with a fresh board', async () => {
+    await backend.set('', { rooms: { '1234': { ...makeRoom(), phase: GamePhase.LOBBY, players: { ...makeRoom().players, k: { status: 'leaved' } } } } });
+    await store().joinRoom('1234', 'k', 'K');
+    const k = (await read()).players.k;
+    expect(k.id).toBe('k');
+    expect(k.grid).toHaveLength(9);
+    expect(k.status).toBe('active');
+  });
+});
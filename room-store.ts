@@ -0,0 +1,413 @@
+import { GameRoom, RoomEvent } from "./types";
+import { canJoinAsPlayer, createPlayer, hostChangeUpdates, isRoomFull, pickNextHost } from "./game-engine";
+
+// Firebase-style multi-path update: keys may be nested paths like `players/${id}/isHost`, null removes
+export type RoomUpdates = Record<string, any>;
+
+/**
+ * What the app needs from room storage. App.tsx only talks to this interface,
+ * so the game runs the same on Firebase or on the in-memory store.
+ */
+export interface RoomStore {
+    saveRoom: (room: GameRoom) => Promise<void>;
+    // Claim a free room code and save build(code) under it; resolves to the saved room
+    createRoom: (build: (roomId: string) => GameRoom) => Promise<GameRoom>;
+    // Delete rooms idle for longer than ROOM_TTL_MS. Best effort, resolves to the number removed.
+    sweepStaleRooms: () => Promise<number>;
+    updateRoom: (roomId: string, updates: RoomUpdates) => Promise<void>;
+    getRoom: (roomId: string, callback: (room: GameRoom) => void) => () => void;
+    // Joins as a player before WRITING starts, otherwise (or when asked to) as a spectator
+    joinRoom: (roomId: string, uid: string, name: string, asSpectator?: boolean) => Promise<void>;
+    leaveRoom: (roomId: string, uid: string, isHost: boolean) => Promise<void>;
+    // After the host removed us: stop the "leaved" mark on disconnect from recreating our node
+    forgetRoom: (roomId: string, uid: string) => Promise<void>;
+    // After the host seated us: move the "leaved" mark on disconnect from our spectator node to our player node
+    takeSeat: (roomId: string, uid: string) => Promise<void>;
+    // Atomically replace the room with apply(room); returning undefined aborts. Resolves true if committed,
+    // false if aborted or the room no longer exists.
+    transactRoom: (roomId: string, apply: (room: GameRoom) => GameRoom | undefined) => Promise<boolean>;
+    // Current time on the database server, in ms
+    serverNow: () => number;
+    // Identify this client; resolves to the uid used as Player.id
+    signIn: () => Promise<string>;
+    // A player's private answer sheet for one round (grid index -> word), kept outside the room
+    // so nobody else can read it while WRITING; published with PUBLISH_ANSWERS when the boards lock
+    saveAnswers: (roomId: string, uid: string, round: number, words: Record<number, string>) => Promise<void>;
+    getAnswers: (roomId: string, uid: string, round: number) => Promise<Record<number, string>>;
+    watchAnswers: (roomId: string, uid: string, round: number, callback: (words: Record<number, string>) => void) => () => void;
+    clearAnswers: (roomId: string, uid: string) => Promise<void>;
+    // Reactions and shouts; events older than EVENT_TTL_MS are trimmed whenever someone sends one
+    sendEvent: (roomId: string, event: Omit<RoomEvent, 'id' | 'at'>) => Promise<void>;
+    // Calls back once per event sent after subscribing
+    watchEvents: (roomId: string, callback: (event: RoomEvent) => void) => () => void;
+}
+
+/**
+ * Low-level database primitives, modelled on the Firebase Realtime Database API.
+ * Paths are slash separated and relative to the database root.
+ */
+export interface StoreBackend {
+    name: string; // Used as the log prefix
+    get: (path: string) => Promise<any>;
+    set: (path: string, value: any) => Promise<void>;
+    update: (path: string, updates: RoomUpdates) => Promise<void>;
+    remove: (path: string) => Promise<void>;
+    subscribe: (path: string, callback: (value: any) => void, onError?: (error: Error) => void) => () => void;
+    // Queue updates the server applies when this client's connection drops
+    onDisconnectUpdate: (path: string, updates: RoomUpdates) => Promise<void>;
+    // Drop the updates queued for path
+    cancelOnDisconnect: (path: string) => Promise<void>;
+    // Compare-and-set: apply may be called again with fresher data; returning undefined aborts
+    transaction: (path: string, apply: (value: any) => any) => Promise<boolean>;
+    // Children of path whose `child` value is missing or <= before, lowest first, at most limit of them
+    queryBefore: (path: string, child: string, before: number, limit: number) => Promise<Record<string, any>>;
+    serverNow: () => number;
+    signIn: () => Promise<string>;
+}
+
+// Rooms with no writes for this long are removed by sweepStaleRooms (keep in sync with database.rules.json)
+export const ROOM_TTL_MS = 2 * 60 * 60 * 1000;
+
+// Events only matter for a moment; anything older is deleted on the next send
+export const EVENT_TTL_MS = 60 * 1000;
+
+// How long a reaction floats and a JinxO shout stays on screen
+export const REACTION_MS = 3000;
+
+const ROOM_CODE_ATTEMPTS = 20;
+const SWEEP_BATCH = 20;
+
+const randomRoomCode = () => Math.floor(1000 + Math.random() * 9000).toString();
+
+const answersPath = (roomId: string, uid: string) => `answers/${roomId}/${uid}`;
+
+// Sortable by time, unique enough for a handful of senders
+const newEventId = (at: number) => `${at.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// The database may hand a numerically keyed node back as an array with holes
+const toAnswerSheet = (value: any): Record<number, string> => {
+    const words: Record<number, string> = {};
+    Object.entries(value || {}).forEach(([cell, word]) => {
+        if (typeof word === 'string') words[Number(cell)] = word;
+    });
+    return words;
+};
+
+// Room logic shared by every backend
+export const createRoomStore = (backend: StoreBackend): RoomStore => {
+    const log = backend.name;
+
+    const withActivity = (room: GameRoom | undefined) => room && { ...room, lastActiveAt: backend.serverNow() };
+
+    return {
+        saveRoom: async (room: GameRoom) => {
+            try {
+                console.log(`${log}: Attempting to save room`, room.id);
+                await backend.set(`rooms/${room.id}`, withActivity(room));
+
+                // Auto-delete room if host disconnects - REMOVED to persist room
+
+                console.log(`${log}: Room saved successfully`, room.id);
+            } catch (error) {
+                console.error(`${log}: Error saving room`, room.id, error);
+                throw error;
+            }
+        },
+
+        createRoom: async (build: (roomId: string) => GameRoom) => {
+            for (let attempt = 0; attempt < ROOM_CODE_ATTEMPTS; attempt++) {
+                const roomId = randomRoomCode();
+                const room: GameRoom = { ...build(roomId), lastActiveAt: backend.serverNow() };
+                // Only claims the code if nobody holds it; an existing room aborts the transaction
+                const committed = await backend.transaction(`rooms/${roomId}`, (current) => current ? undefined : room);
+                if (committed) {
+                    console.log(`${log}: Room created`, roomId);
+                    return room;
+                }
+                console.warn(`${log}: Room code taken, trying another`, roomId);
+            }
+            throw new Error("Could not find a free room code, please try again");
+        },
+
+        sweepStaleRooms: async () => {
+            const cutoff = backend.serverNow() - ROOM_TTL_MS;
+            let removed = 0;
+            try {
+                const candidates = await backend.queryBefore('rooms', 'lastActiveAt', cutoff, SWEEP_BATCH);
+                for (const [roomId, room] of Object.entries(candidates)) {
+                    // Rooms from before lastActiveAt existed fall back to createdAt
+                    if ((room?.lastActiveAt ?? room?.createdAt ?? 0) > cutoff) continue;
+                    await backend.remove(`rooms/${roomId}`);
+                    await backend.remove(`answers/${roomId}`);
+                    await backend.remove(`events/${roomId}`);
+                    removed++;
+                    console.log(`${log}: Removed stale room`, roomId);
+                }
+            } catch (error) {
+                console.warn(`${log}: Stale room sweep failed`, error);
+            }
+            return removed;
+        },
+
+        updateRoom: async (roomId: string, updates: RoomUpdates) => {
+            try {
+                console.log(`${log}: Attempting to update room`, roomId, updates);
+                await backend.update(`rooms/${roomId}`, { ...updates, lastActiveAt: backend.serverNow() });
+                console.log(`${log}: Room updated successfully`, roomId);
+            } catch (error) {
+                console.error(`${log}: Error updating room`, roomId, error);
+                throw error;
+            }
+        },
+
+        getRoom: (roomId: string, callback: (room: GameRoom) => void) => {
+            console.log(`${log}: Subscribing to room`, roomId);
+            return backend.subscribe(`rooms/${roomId}`, (data) => {
+                console.log(`${log}: Received room data`, roomId);
+                if (data) {
+                    callback(data);
+                }
+            }, (error) => {
+                console.error(`${log}: Error listening to room`, roomId, error);
+            });
+        },
+
+        transactRoom: async (roomId: string, apply: (room: GameRoom) => GameRoom | undefined) => {
+            try {
+                let missing = false;
+                const committed = await backend.transaction(`rooms/${roomId}`, (room) => {
+                    // Firebase may first run this against an empty local cache; hand null back and it retries with server data.
+                    // If the last run still saw no room, the room is gone and nothing was applied.
+                    missing = !room;
+                    return room ? withActivity(apply(room)) : room;
+                });
+                const applied = committed && !missing;
+                console.log(`${log}: Room transaction ${applied ? 'committed' : 'aborted'}`, roomId);
+                return applied;
+            } catch (error) {
+                console.error(`${log}: Error in room transaction`, roomId, error);
+                throw error;
+            }
+        },
+
+        serverNow: () => backend.serverNow(),
+
+        signIn: async () => {
+            try {
+                const uid = await backend.signIn();
+                console.log(`${log}: Signed in as`, uid);
+                return uid;
+            } catch (error) {
+                console.error(`${log}: Error signing in`, error);
+                throw error;
+            }
+        },
+
+        saveAnswers: async (roomId: string, uid: string, round: number, words: Record<number, string>) => {
+            const updates: RoomUpdates = {};
+            Object.entries(words).forEach(([cell, word]) => {
+                updates[`r${round}/${cell}`] = word;
+            });
+            try {
+                await backend.update(answersPath(roomId, uid), updates);
+            } catch (error) {
+                console.error(`${log}: Error saving answers`, roomId, error);
+                throw error;
+            }
+        },
+
+        getAnswers: async (roomId: string, uid: string, round: number) =>
+            toAnswerSheet(await backend.get(`${answersPath(roomId, uid)}/r${round}`)),
+
+        watchAnswers: (roomId: string, uid: string, round: number, callback: (words: Record<number, string>) => void) =>
+            backend.subscribe(`${answersPath(roomId, uid)}/r${round}`, (data) => callback(toAnswerSheet(data)), (error) => {
+                console.error(`${log}: Error listening to answers`, roomId, error);
+            }),
+
+        clearAnswers: async (roomId: string, uid: string) => {
+            try {
+                await backend.remove(answersPath(roomId, uid));
+                console.log(`${log}: Private answers cleared`, roomId);
+            } catch (error) {
+                console.error(`${log}: Error clearing answers`, roomId, error);
+                throw error;
+            }
+        },
+
+        sendEvent: async (roomId: string, event: Omit<RoomEvent, 'id' | 'at'>) => {
+            const at = backend.serverNow();
+            const id = newEventId(at);
+            try {
+                await backend.set(`events/${roomId}/${id}`, { ...event, id, at });
+            } catch (error) {
+                console.error(`${log}: Error sending event`, roomId, error);
+                throw error;
+            }
+
+            // Trimming is best effort; whoever sends next tries again
+            try {
+                const stale = await backend.queryBefore(`events/${roomId}`, 'at', at - EVENT_TTL_MS, SWEEP_BATCH);
+                await Promise.all(Object.keys(stale).map(staleId => backend.remove(`events/${roomId}/${staleId}`)));
+            } catch (error) {
+                console.warn(`${log}: Could not trim old events`, roomId, error);
+            }
+        },
+
+        watchEvents: (roomId: string, callback: (event: RoomEvent) => void) => {
+            // The node holds the last minute of events; only the ones that arrive from now on are news
+            const since = backend.serverNow();
+            const seen = new Set<string>();
+            return backend.subscribe(`events/${roomId}`, (data) => {
+                (Object.values(data || {}) as RoomEvent[])
+                    .filter(e => e && !seen.has(e.id) && e.at >= since)
+                    .sort((a, b) => a.at - b.at)
+                    .forEach(e => {
+                        seen.add(e.id);
+                        callback(e);
+                    });
+                // Forget trimmed events so the set stays as small as the node
+                seen.forEach(id => {
+                    if (!data?.[id]) seen.delete(id);
+                });
+            }, (error) => {
+                console.error(`${log}: Error listening to events`, roomId, error);
+            });
+        },
+
+        joinRoom: async (roomId: string, uid: string, name: string, asSpectator = false) => {
+            console.log(`${log}: Attempting to join room`, roomId, 'as', name);
+
+            const room = await backend.get(`rooms/${roomId}`) as GameRoom | null;
+            if (!room) {
+                console.error(`${log}: Room not found`, roomId);
+                throw new Error("Room not found");
+            }
+
+            // A node without an id is a leftover "leaved" mark from a client that was removed; joining replaces it
+            const existingPlayer = room.players?.[uid]?.id ? room.players[uid] : undefined;
+            const existingSpectator = room.spectators?.[uid]?.id ? room.spectators[uid] : undefined;
+
+            // Host moderation; people already in the room may always come back
+            if (room.banned?.[uid] !== undefined) {
+                console.warn(`${log}: Banned player tried to join`, roomId, uid);
+                throw new Error("You have been banned from this room");
+            }
+            if (!existingPlayer && !existingSpectator) {
+                if (room.locked) throw new Error("This room is locked, ask the host to unlock it");
+                if (!asSpectator && isRoomFull(room)) {
+                    throw new Error(`This room is full (${room.maxPlayers} players). You can still join to watch.`);
+                }
+            }
+
+            let updates: RoomUpdates;
+            let role = 'players';
+
+            // Only this player's own node is written; the security rules reject touching anyone else's
+            if (existingPlayer) {
+                console.log(`${log}: Rejoining existing player`, uid);
+                // Preserve existing state, just update status and maybe name
+                updates = {
+                    [`players/${uid}/name`]: name, // User might have updated name, but identity is same
+                    [`players/${uid}/status`]: 'active'
+                };
+            } else if (existingSpectator) {
+                console.log(`${log}: Rejoining as spectator`, uid);
+                role = 'spectators';
+                updates = {
+                    [`spectators/${uid}/name`]: name,
+                    [`spectators/${uid}/status`]: 'active'
+                };
+            } else if (!asSpectator && canJoinAsPlayer(room)) {
+                console.log(`${log}: Joining as new player`, uid);
+                updates = {
+                    [`players/${uid}`]: createPlayer(uid, name, room.boardSize || 3) // Host is set on creation
+                };
+            } else {
+                // Too late for this round (or just watching): a seat is kept for the next round
+                console.log(`${log}: Joining as spectator`, uid);
+                role = 'spectators';
+                updates = {
+                    [`spectators/${uid}`]: { id: uid, name, status: 'active', seatNextRound: !asSpectator }
+                };
+            }
+
+            try {
+                await backend.update(`rooms/${roomId}`, { ...updates, lastActiveAt: backend.serverNow() });
+
+                // Mark player as leaved if they disconnect
+                backend.onDisconnectUpdate(`rooms/${roomId}/${role}/${uid}`, { status: 'leaved' }).catch(err =>
+                    console.error(`${log}: Failed to set onDisconnect for player`, uid, err)
+                );
+
+                console.log(`${log}: Joined/Rejoined room successfully`, roomId);
+            } catch (error) {
+                console.error(`${log}: Error updating players during join`, roomId, error);
+                throw error;
+            }
+        },
+
+        leaveRoom: async (roomId: string, uid: string, isHost: boolean) => {
+            try {
+                const roomPath = `rooms/${roomId}`;
+
+                // A spectator has nothing to keep, so they are simply removed
+                const spectator = await backend.get(`${roomPath}/spectators/${uid}`);
+                if (spectator) {
+                    await backend.remove(`${roomPath}/spectators/${uid}`);
+                    console.log(`${log}: Spectator left`, uid);
+                    return;
+                }
+
+                // Mark the leaving player as leaved instead of removing
+                await backend.update(`${roomPath}/players/${uid}`, { status: 'leaved' });
+                console.log(`${log}: Player marked as leaved`, uid);
+
+                // Fetch the latest room data
+                const room = await backend.get(roomPath);
+                if (!room) {
+                    console.warn(`${log}: Room not found after leaving`, roomId);
+                    return;
+                }
+
+                // Only the host may delete the room. When the last player to leave is not the host,
+                // the room goes idle and sweepStaleRooms removes it
+                if (isHost) {
+                    // Transfer host to a co-host if there is one, otherwise another active player
+                    const newHostId = pickNextHost(room);
+
+                    if (newHostId) {
+                        await backend.update(roomPath, hostChangeUpdates(room, newHostId));
+                        console.log(`${log}: Host transferred to`, newHostId);
+                    } else {
+                        // No active players left, delete the room (answers and events only once the room is gone)
+                        await backend.remove(roomPath);
+                        await backend.remove(`answers/${roomId}`);
+                        await backend.remove(`events/${roomId}`);
+                        console.log(`${log}: Room deleted (no active players)`, roomId);
+                    }
+                }
+            } catch (error) {
+                console.error(`${log}: Error leaving room`, error);
+                throw error;
+            }
+        },
+
+        forgetRoom: async (roomId: string, uid: string) => {
+            try {
+                await backend.cancelOnDisconnect(`rooms/${roomId}/players/${uid}`);
+                await backend.cancelOnDisconnect(`rooms/${roomId}/spectators/${uid}`);
+            } catch (error) {
+                console.warn(`${log}: Could not cancel the disconnect mark`, roomId, error);
+            }
+        },
+
+        takeSeat: async (roomId: string, uid: string) => {
+            try {
+                await backend.onDisconnectUpdate(`rooms/${roomId}/players/${uid}`, { status: 'leaved' });
+                await backend.cancelOnDisconnect(`rooms/${roomId}/spectators/${uid}`);
+            } catch (error) {
+                console.error(`${log}: Failed to move the disconnect mark to the player`, uid, error);
+            }
+        },
+    };
+};
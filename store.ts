@@ -0,0 +1,28 @@
+import { RoomStore } from './room-store';
+import { dbService } from './firebase-service';
+import { mockDb } from './firebase-mock';
+import { createLocalDb } from './local-backend';
+
+/**
+ * Room storage used by the app, chosen by ROOM_STORE in .env.local or `?store=` in the URL:
+ * - firebase (default): Firebase Realtime Database
+ * - memory: in-memory, single tab, no network
+ * - local: tabs on this machine share rooms through localStorage + BroadcastChannel
+ */
+const storeName = new URLSearchParams(window.location.search).get('store') || process.env.ROOM_STORE;
+
+const pickStore = (name?: string): RoomStore => {
+  switch (name) {
+    case 'memory':
+      return mockDb;
+    case 'local':
+      return createLocalDb();
+    default:
+      return dbService;
+  }
+};
+
+export const db: RoomStore = pickStore(storeName);
+
+// Where the player's name is remembered (the id comes from db.signIn). Local multi-tab play needs one per tab.
+export const identityStorage: Storage = storeName === 'local' ? sessionStorage : localStorage;
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { drawTopics } from './topic-decks';
+import { TopicPack } from './types';
+
+const pack = (...topics: string[]): TopicPack => ({ id: topics.join('-'), name: 'Test', lang: 'en', topics });
+
+// Always takes the first topic left in the pool
+const first = () => 0;
+
+describe('drawTopics', () => {
+  it.each([
+    ['draws from every selected pack', [pack('Fruits'), pack('Colors')], 2, [], ['Fruits', 'Colors']],
+    ['skips used topics', [pack('Fruits', 'Colors', 'Pets')], 2, ['Fruits'], ['Colors', 'Pets']],
+    ['compares by match key', [pack('Fruits', 'Colors')], 1, ['fruits '], ['Colors']],
+    ['draws a topic shared by two packs once', [pack('Fruits'), pack('fruits', 'Pets')], 2, [], ['Fruits', 'Pets']],
+  ] as [string, TopicPack[], number, string[], string[]][])('%s', (_, packs, count, used, expected) => {
+    expect(drawTopics(packs, count, used, first)).toEqual(expected);
+  });
+
+  it.each([
+    ['an empty deck', [pack()], 1, []],
+    ['a deck with too few topics', [pack('Fruits', 'Colors')], 3, []],
+    ['a deck used up this match', [pack('Fruits', 'Colors')], 1, ['Colors', 'Fruits']],
+  ] as [string, TopicPack[], number, string[]][])('refuses %s', (_, packs, count, used) => {
+    expect(() => drawTopics(packs, count, used, first)).toThrow('Not enough unused topics');
+  });
+});
@@ -0,0 +1,118 @@
+import { TopicPack } from './types';
+import { answerKey, cleanAnswer } from './normalize';
+
+// Topic packs that ship with the game
+export const BUILTIN_PACKS: TopicPack[] = [
+  {
+    id: 'th-everyday',
+    name: 'ชีวิตประจำวัน',
+    lang: 'th',
+    topics: [
+      'ผลไม้', 'ผัก', 'สัตว์เลี้ยง', 'สัตว์ในป่า', 'อาหารไทย', 'ขนมไทย', 'เครื่องดื่ม', 'ของในตู้เย็น',
+      'ของในห้องน้ำ', 'ของในครัว', 'เครื่องใช้ไฟฟ้า', 'เสื้อผ้า', 'อาชีพ', 'กีฬา', 'ยานพาหนะ', 'สี',
+      'ดอกไม้', 'อวัยวะในร่างกาย', 'ของในกระเป๋า', 'เครื่องเขียน', 'ของเล่น', 'ร้านในห้าง', 'ของที่ขายในเซเว่น', 'เมนูก๋วยเตี๋ยว'
+    ]
+  },
+  {
+    id: 'th-culture',
+    name: 'ไทยแลนด์',
+    lang: 'th',
+    topics: [
+      'จังหวัดในประเทศไทย', 'สถานที่ท่องเที่ยว', 'เทศกาลไทย', 'ทะเลและเกาะ', 'วัดดัง', 'ภาษาถิ่น',
+      'ของฝากประจำจังหวัด', 'ตลาดนัด', 'ผีไทย', 'เพลงลูกทุ่ง', 'ละครหลังข่าว', 'ขนมหวานงานวัด',
+      'อาหารอีสาน', 'อาหารใต้', 'อาหารเหนือ', 'เครื่องดนตรีไทย'
+    ]
+  },
+  {
+    id: 'en-everyday',
+    name: 'Everyday',
+    lang: 'en',
+    topics: [
+      'Fruits', 'Vegetables', 'Pets', 'Wild animals', 'Breakfast foods', 'Desserts', 'Drinks', 'Things in a fridge',
+      'Things in a bathroom', 'Kitchen tools', 'Home appliances', 'Clothes', 'Jobs', 'Sports', 'Vehicles', 'Colors',
+      'Flowers', 'Body parts', 'Things in a bag', 'School supplies', 'Toys', 'Board games', 'Pizza toppings', 'Weather'
+    ]
+  },
+  {
+    id: 'en-pop',
+    name: 'Pop Culture',
+    lang: 'en',
+    topics: [
+      'Superheroes', 'Cartoon characters', 'Disney movies', 'Video games', 'Famous bands', 'Social media apps',
+      'Car brands', 'Fast food chains', 'Fairy tales', 'Board game pieces', 'Famous landmarks', 'Countries',
+      'Capital cities', 'Musical instruments', 'Dance styles', 'Holidays'
+    ]
+  }
+];
+
+// Custom packs and the last pack selection are remembered on the host's device
+const CUSTOM_PACKS_KEY = 'jinx_topicPacks';
+const SELECTED_PACKS_KEY = 'jinx_selectedPacks';
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch (e) {
+    console.warn('TopicDecks: Could not read', key, e);
+    return fallback;
+  }
+};
+
+const uniqueTopics = (topics: string[]): string[] => {
+  const seen = new Set<string>();
+  return topics.map(cleanAnswer).filter(t => {
+    const key = answerKey(t);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const loadCustomPacks = (): TopicPack[] =>
+  readJson<TopicPack[]>(CUSTOM_PACKS_KEY, []).map(p => ({ ...p, custom: true }));
+
+// Create or replace a custom pack; topics are cleaned and de-duplicated
+export const saveCustomPack = (pack: Omit<TopicPack, 'custom'>): TopicPack => {
+  const name = cleanAnswer(pack.name);
+  if (!name) throw new Error('Give the pack a name');
+  const topics = uniqueTopics(pack.topics);
+  if (topics.length === 0) throw new Error('Add at least one topic');
+
+  const saved: TopicPack = { ...pack, name, topics, custom: true };
+  const others = loadCustomPacks().filter(p => p.id !== pack.id);
+  localStorage.setItem(CUSTOM_PACKS_KEY, JSON.stringify([...others, saved]));
+  return saved;
+};
+
+export const deleteCustomPack = (id: string) => {
+  localStorage.setItem(CUSTOM_PACKS_KEY, JSON.stringify(loadCustomPacks().filter(p => p.id !== id)));
+};
+
+export const loadSelectedPacks = (): string[] => readJson<string[]>(SELECTED_PACKS_KEY, []);
+
+export const saveSelectedPacks = (ids: string[]) => {
+  localStorage.setItem(SELECTED_PACKS_KEY, JSON.stringify(ids));
+};
+
+/**
+ * Pick `count` random topics from the selected packs, skipping anything in `exclude`
+ * (compared by match key, so "Fruits" and "fruits " count as the same topic).
+ */
+export const drawTopics = (
+  packs: TopicPack[],
+  count: number,
+  exclude: Iterable<string> = [],
+  random: () => number = Math.random
+): string[] => {
+  const excluded = new Set([...exclude].map(answerKey));
+  const pool = uniqueTopics(packs.flatMap(p => p.topics || [])).filter(t => !excluded.has(answerKey(t)));
+  if (pool.length < count) throw new Error('Not enough unused topics in the selected packs');
+
+  // Partial Fisher-Yates: the first `count` slots end up a uniform random sample
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, count);
+};
@@ -22,13 +22,138 @@ export interface Player {
   totalScore: number;
   isReady: boolean;
   status?: 'active' | 'leaved';
+  answersPublished?: boolean; // this round's private answers have been copied into grid
+  answeredCount?: number; // cells filled in so far while WRITING, shown without revealing the words
+}
+
+// Someone in the room who watches without a board: not scored, not on the leaderboard
+export interface Spectator {
+  id: string;
+  name: string;
+  status?: 'active' | 'leaved';
+  seatNextRound?: boolean; // joined mid-round; becomes a player when the next round starts
+}
+
+// Points for a round, set by the host in the LOBBY
+export interface ScoringRules {
+  cellPoints: { O: number; STAR: number; X: number }; // X is a penalty: 0 or negative
+  rowBonuses: number[]; // complete rows, top to bottom (one per row)
+  colBonuses: number[]; // complete columns, left to right (one per column)
+  diagonalBonuses: number[]; // [top-left to bottom-right, top-right to bottom-left]
+  fullBoardBonus: number; // every cell O or STAR
+}
+
+// Where a round's points came from
+export interface ScoreBreakdown {
+  cells: number;
+  rows: number;
+  columns: number;
+  diagonals: number;
+  fullBoard: number;
+  total: number;
+}
+
+export interface RoundPlayerRecord {
+  name: string;
+  grid: GridCell[];
+  score: ScoreBreakdown;
+}
+
+// A finished round, archived when its scores are finalized
+export interface RoundRecord {
+  round: number;
+  topics: string[];
+  players: Record<string, RoundPlayerRecord>;
+}
+
+// A named list of topics the host can draw from in SELECT_TOPICS
+export interface TopicPack {
+  id: string;
+  name: string;
+  lang: 'th' | 'en';
+  topics: string[];
+  custom?: boolean; // made by the host and saved on their device
+}
+
+// Who fills room.topics in SELECT_TOPICS:
+// host = the host, rotate = a different player each round, vote = everyone submits and the room votes
+export type TopicMode = 'host' | 'rotate' | 'vote';
+
+// A topic put forward in vote mode
+export interface TopicCandidate {
+  id: string;
+  topic: string;
+  by: string; // playerId
+  votes?: Record<string, boolean>; // playerId -> voted for it
+}
+
+// Two answer groups under one topic that the room agreed mean the same thing
+export interface AnswerMerge {
+  topic: number; // index into GameRoom.topics
+  keys: string[]; // match keys (see normalize.ts) of the merged groups
+  by: string; // host id, or 'vote'
+}
+
+export interface MergeProposal {
+  id: string;
+  topic: number;
+  keys: string[];
+  words: string[]; // display text of each group when proposed
+  proposedBy: string;
+  votes?: Record<string, boolean>; // playerId -> in favour
+}
+
+// A disputed cell on another player's board, settled by a vote of the active players
+export interface Challenge {
+  id: string;
+  playerId: string; // owner of the challenged board
+  cell: number; // grid index
+  challengerId: string;
+  currentScore: ScoreType; // mark at the time of the challenge
+  votes?: Record<string, ScoreType>; // voterId -> mark they think the cell deserves
 }
 
 export interface GameRoom {
   id: string;
   hostId: string;
+  coHosts?: Record<string, boolean>; // playerId -> true; may run the game and take over first if the host leaves
   topics: string[];
   phase: GamePhase;
   players: Record<string, Player>;
+  spectators?: Record<string, Spectator>;
   createdAt: number;
+  lastActiveAt?: number; // server time (ms) of the last write, used to expire abandoned rooms
+  boardSize?: number; // N for an N x N board with N topics, defaults to 3
+  writingTimeLimit?: number; // seconds for WRITING, 0 or missing = no limit
+  writingDeadline?: number; // server time (ms) when WRITING ends
+  matchLength?: number; // rounds in a match, 0 or missing = endless
+  autoAdvance?: boolean; // leave WRITING / SCORING as soon as every active player is ready
+  round?: number; // 1-based, bumped on every restart
+  scoredRound?: number; // last round whose scores were added to totalScore
+  scoresProposed?: boolean; // marks pre-filled from the published answers this round
+  scoringRules?: ScoringRules;
+  topicMode?: TopicMode; // defaults to host
+  topicPicker?: string; // playerId choosing this round's topics in rotate mode
+  topicCandidates?: Record<string, TopicCandidate>;
+  history?: Record<string, RoundRecord>; // keyed `r${round}`
+  merges?: AnswerMerge[];
+  mergeProposals?: Record<string, MergeProposal>;
+  challenges?: Record<string, Challenge>;
+  settledCells?: Record<string, boolean>; // `${playerId}_${cell}` decided by a challenge vote; its mark is final
+  locked?: boolean; // nobody new may join
+  maxPlayers?: number; // cap on active players, 0 or missing = no cap
+  banned?: Record<string, string>; // uid -> name at the time of the ban; joinRoom refuses them
+}
+
+export type RoomEventType = 'reaction' | 'jinx';
+
+// Fire-and-forget room chatter (emoji reactions, JinxO shouts), kept at events/$roomId outside the room snapshot
+export interface RoomEvent {
+  id: string;
+  type: RoomEventType;
+  by: string; // playerId (or spectator id) who sent it
+  at: number; // server time (ms)
+  emoji?: string; // reaction
+  partner?: string; // jinx: the other player who wrote the same answer
+  word?: string; // jinx: the shared answer
 }
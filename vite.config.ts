@@ -12,7 +12,11 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.ROOM_STORE': JSON.stringify(env.ROOM_STORE || 'firebase'),
+        // firebase emulators:exec announces the emulators under the *_HOST names
+        'process.env.FIREBASE_EMULATOR': JSON.stringify(env.FIREBASE_EMULATOR || env.FIREBASE_DATABASE_EMULATOR_HOST || ''),
+        'process.env.FIREBASE_AUTH_EMULATOR': JSON.stringify(env.FIREBASE_AUTH_EMULATOR || env.FIREBASE_AUTH_EMULATOR_HOST || '')
       },
       resolve: {
         alias: {